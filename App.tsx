@@ -9,66 +9,101 @@ import AuthPage from './components/AuthPage';
 import DropsPage from './components/DropsPage';
 import ProductDetailPage from './components/ProductDetailPage';
 import FaqPage from './components/FaqPage';
-import { Product, ImageResolution } from './types';
+import AdminPage from './components/AdminPage';
+import AnalyticsPage from './components/AnalyticsPage';
+import AccountPage from './components/AccountPage';
+import { Product, ImageResolution, CatalogueEntry } from './types';
+import { DropConfig } from './services/pricingEngine';
 import { ensureApiKey, generateProductImage } from './services/geminiService';
+import { getCatalogue, getMe, logout, setSessionToken, setDeviceId } from './services/apiClient';
+import { MeResponse, SessionResponse } from './services/apiSchema';
+import { catalogue, toProduct, toDropConfig } from './config/products';
 
-// Updated IDs to match config/products.json keys
-const INITIAL_PRODUCTS: Product[] = [
-  {
-    id: 'iphone17',
-    name: 'iPhone 17 Pro',
-    description: 'Desert Titanium finish. The future of communication.',
-    placeholderUrl: 'https://i.imgur.com/oLONhSv.jpeg',
-    basePrice: 1100,
-    priceHidden: true,
-  },
-  {
-    id: 'ps5slim',
-    name: 'PlayStation 5 Slim',
-    description: 'Ultra-HD gaming console in Glacier White.',
-    placeholderUrl: 'https://i.imgur.com/jRtYBec.png',
-    basePrice: 485,
-    priceHidden: true,
-  },
-  {
-    id: 'macbookairm4',
-    name: 'MacBook Air M4',
-    description: 'Space Gray. Power meets portability.',
-    placeholderUrl: 'https://i.imgur.com/aURWe9x.png',
-    basePrice: 900,
-    priceHidden: true,
-  },
-];
-
-type ViewState = 'auth' | 'landing' | 'drops' | 'product' | 'how-it-works' | 'faq';
+// The bundled catalogue (config/products.json) renders until the API's catalogue
+// arrives; drops created in the admin console only exist there.
+const INITIAL_PRODUCTS: Product[] = catalogue.map(toProduct);
+const toDropConfigs = (entries: CatalogueEntry[]): Record<string, DropConfig> =>
+  Object.fromEntries(entries.map(entry => [entry.productId, toDropConfig(entry)]));
+
+// Session token from the API; the account itself is re-fetched on load
+const SESSION_KEY = 'qomo_session';
+const DEVICE_KEY = 'qomo_device';
+
+type ViewState = 'auth' | 'landing' | 'drops' | 'product' | 'how-it-works' | 'faq' | 'admin' | 'analytics' | 'account';
 
 function App() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [user, setUser] = useState<MeResponse | null>(null);
+  const [isRestoringSession, setIsRestoringSession] = useState(() => localStorage.getItem(SESSION_KEY) !== null);
   const [view, setView] = useState<ViewState>('auth');
   const [selectedProductId, setSelectedProductId] = useState<string | null>(null);
   
   // Lifted state for products so generation persists across views
   const [products, setProducts] = useState<Product[]>(INITIAL_PRODUCTS);
+  const [dropConfigs, setDropConfigs] = useState<Record<string, DropConfig>>(() => toDropConfigs(catalogue));
   const [isGenerating, setIsGenerating] = useState(false);
 
-  // Check for existing session on mount
+  const loadCatalogue = async () => {
+    try {
+      const entries = await getCatalogue();
+      // Keep images generated in this session for drops that have none stored
+      setProducts(prev => entries.map(entry => {
+        const product = toProduct(entry);
+        return { ...product, generatedImage: product.generatedImage ?? prev.find(p => p.id === product.id)?.generatedImage };
+      }));
+      setDropConfigs(toDropConfigs(entries));
+    } catch (err) {
+      console.error("Failed to load the catalogue from the API", err);
+    }
+  };
+
+  useEffect(() => {
+    loadCatalogue();
+  }, []);
+
+  // One device ID per browser, kept across sign-ins
   useEffect(() => {
-    const savedAuth = localStorage.getItem('qomo_auth');
-    if (savedAuth === 'true') {
-      setIsAuthenticated(true);
-      setView('landing');
+    let deviceId = localStorage.getItem(DEVICE_KEY);
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem(DEVICE_KEY, deviceId);
     }
+    setDeviceId(deviceId);
   }, []);
 
-  const handleLogin = () => {
-    setIsAuthenticated(true);
-    localStorage.setItem('qomo_auth', 'true');
+  // Restore a saved session on mount; an expired or revoked token is dropped
+  useEffect(() => {
+    const token = localStorage.getItem(SESSION_KEY);
+    if (!token) return;
+
+    setSessionToken(token);
+    getMe()
+      .then((me) => {
+        setUser(me);
+        setView('landing');
+      })
+      .catch(() => {
+        setSessionToken(null);
+        localStorage.removeItem(SESSION_KEY);
+      })
+      .finally(() => setIsRestoringSession(false));
+  }, []);
+
+  const handleLogin = (session: SessionResponse) => {
+    setSessionToken(session.token);
+    localStorage.setItem(SESSION_KEY, session.token);
+    setUser(session.user);
     setView('landing');
   };
 
-  const handleLogout = () => {
-    setIsAuthenticated(false);
-    localStorage.removeItem('qomo_auth');
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } catch (err) {
+      console.error("Failed to revoke the session", err);
+    }
+    setSessionToken(null);
+    localStorage.removeItem(SESSION_KEY);
+    setUser(null);
     setView('auth');
     setSelectedProductId(null);
   };
@@ -88,6 +123,21 @@ function App() {
     window.scrollTo(0, 0);
   };
 
+  const handleOpenAdmin = () => {
+    setView('admin');
+    window.scrollTo(0, 0);
+  };
+
+  const handleOpenAnalytics = () => {
+    setView('analytics');
+    window.scrollTo(0, 0);
+  };
+
+  const handleOpenAccount = () => {
+    setView('account');
+    window.scrollTo(0, 0);
+  };
+
   const handleSelectProduct = (productId: string) => {
     setSelectedProductId(productId);
     setView('product');
@@ -134,7 +184,11 @@ function App() {
 
   // --- View Routing ---
 
-  if (!isAuthenticated) {
+  if (isRestoringSession) {
+    return <div className="w-full h-screen bg-charcoal" />;
+  }
+
+  if (!user) {
     return <AuthPage onLogin={handleLogin} />;
   }
 
@@ -157,6 +211,12 @@ function App() {
                  HOME
                </button>
             )}
+            <button 
+              onClick={handleOpenAccount}
+              className="font-sans text-xs font-bold tracking-widest text-offwhite/70 hover:text-softgold transition-colors"
+            >
+              ACCOUNT
+            </button>
             <button 
               onClick={handleLogout}
               className="font-sans text-xs font-bold tracking-widest border border-offwhite/30 px-4 py-2 rounded-full cursor-pointer hover:bg-offwhite hover:text-charcoal transition-all"
@@ -197,12 +257,26 @@ function App() {
         {view === 'product' && selectedProductId && (
           <ProductDetailPage 
             product={products.find(p => p.id === selectedProductId)!}
+            config={dropConfigs[selectedProductId]}
+            viewerId={user.id}
             onBack={handleBackToDrops}
           />
         )}
+
+        {view === 'admin' && (
+          <AdminPage onBack={handleBackToLanding} onCatalogueChange={loadCatalogue} onOpenAnalytics={handleOpenAnalytics} />
+        )}
+
+        {view === 'account' && (
+          <AccountPage user={user} onBack={handleBackToLanding} />
+        )}
+
+        {view === 'analytics' && (
+          <AnalyticsPage onBack={handleOpenAdmin} />
+        )}
       </main>
 
-      <Footer onFaqClick={handleOpenFaq} />
+      <Footer onFaqClick={handleOpenFaq} onAdminClick={handleOpenAdmin} />
     </div>
   );
 }
@@ -1,14 +1,16 @@
 import React, { useState } from 'react';
 import { Sparkles, Search, ExternalLink, ChevronDown, ChevronUp, Check, X as XIcon, AlertCircle } from 'lucide-react';
-import { analyzePriceComparison, ensureApiKey, PriceAnalysisResult } from '../services/geminiService';
+import { analyzePriceComparison, ensureApiKey, normalizeComparisons, PriceAnalysisResult } from '../services/geminiService';
+import { formatMajor } from '../services/money';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface AIPriceAnalystProps {
   productName: string;
   basePrice: number;
+  currency: string;
 }
 
-export const AIPriceAnalyst: React.FC<AIPriceAnalystProps> = ({ productName, basePrice }) => {
+export const AIPriceAnalyst: React.FC<AIPriceAnalystProps> = ({ productName, basePrice, currency }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysis, setAnalysis] = useState<{ data: PriceAnalysisResult | null; sources: { title: string; uri: string }[] } | null>(null);
@@ -32,11 +34,13 @@ export const AIPriceAnalyst: React.FC<AIPriceAnalystProps> = ({ productName, bas
         return;
       }
 
-      const result = await analyzePriceComparison(productName, basePrice);
+      const result = await analyzePriceComparison(productName, basePrice, currency);
       if (!result.data) {
           throw new Error("Invalid analysis format received.");
       }
-      setAnalysis(result);
+      // Compare in the drop's currency, not whatever the retailers quote in
+      const data = await normalizeComparisons(result.data, basePrice, currency);
+      setAnalysis({ ...result, data });
     } catch (err: any) {
       console.error(err);
       setError("Unable to complete market analysis. Please try again.");
@@ -104,7 +108,7 @@ export const AIPriceAnalyst: React.FC<AIPriceAnalystProps> = ({ productName, bas
                         {/* Qomo Baseline */}
                         <div className="flex justify-between items-center bg-softgold/5 border border-softgold/20 p-4 rounded-lg">
                             <span className="font-sans text-sm font-bold text-softgold">QOMO BASE PRICE</span>
-                            <span className="font-serif text-xl text-softgold">${analysis.data.qomoBasePrice.toFixed(2)}</span>
+                            <span className="font-serif text-xl text-softgold">{formatMajor(analysis.data.qomoBasePrice, currency)}</span>
                         </div>
 
                         {/* Competitor List */}
@@ -134,6 +138,11 @@ export const AIPriceAnalyst: React.FC<AIPriceAnalystProps> = ({ productName, bas
                                             <div className="font-serif text-lg text-offwhite/80">
                                                 {comp.price.toFixed(2)}
                                             </div>
+                                            {comp.normalizedPrice != null && comp.currency.toUpperCase() !== currency && (
+                                                <div className="text-[10px] text-offwhite/40 font-sans">
+                                                    ≈ {formatMajor(comp.normalizedPrice, currency)}
+                                                </div>
+                                            )}
                                             {isQomoCheaper && (
                                                 <div className="text-[10px] text-green-400 font-sans font-bold flex items-center justify-end gap-1">
                                                     QOMO IS CHEAPER
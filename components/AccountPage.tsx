@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Download } from 'lucide-react';
+import { HistoryResponse, MeResponse, OrdersResponse, WalletResponse } from '../services/apiSchema';
+import { HistoryEntry } from '../services/accountHistory';
+import { getAccountHistory, getAccountHistoryCsv, getOrders, getWallet } from '../services/apiClient';
+import { formatMoney } from '../services/money';
+
+interface AccountPageProps {
+  user: MeResponse;
+  onBack: () => void;
+}
+
+const PAGE_SIZE = 20;
+
+const ENTRY_LABELS: Record<HistoryEntry['type'], string> = {
+  VIEW: 'Price reveal',
+  QUEUED: 'Joined queue',
+  PURCHASE: 'Purchase',
+  REFUND: 'Refund',
+};
+
+const describe = (entry: HistoryEntry) => {
+  switch (entry.type) {
+    case 'VIEW':
+      return `Fee ${formatMoney(entry.amount, entry.currency)} · revealed ${formatMoney(entry.priceRevealed!, entry.currency)}`;
+    case 'PURCHASE':
+      return `Bought for ${formatMoney(entry.amount, entry.currency)}`;
+    case 'REFUND':
+      return `${formatMoney(entry.amount, entry.currency)} ${entry.refundKind === 'CREDIT' ? 'wallet credit' : 'refunded'}`;
+    default:
+      return '—';
+  }
+};
+
+const downloadCsv = (csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'qomo-history.csv';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const AccountPage: React.FC<AccountPageProps> = ({ user, onBack }) => {
+  const [offset, setOffset] = useState(0);
+  const [history, setHistory] = useState<HistoryResponse | null>(null);
+  const [wallet, setWallet] = useState<WalletResponse | null>(null);
+  const [orders, setOrders] = useState<OrdersResponse>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getWallet().then(setWallet).catch(() => setWallet(null));
+    getOrders().then(setOrders).catch(() => setOrders([]));
+  }, []);
+
+  useEffect(() => {
+    getAccountHistory(offset, PAGE_SIZE)
+      .then((page) => {
+        setHistory(page);
+        setError(null);
+      })
+      .catch((err) => setError(err.message));
+  }, [offset]);
+
+  const handleExport = async () => {
+    try {
+      downloadCsv(await getAccountHistoryCsv());
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const lastShown = history ? Math.min(history.offset + history.entries.length, history.total) : 0;
+
+  return (
+    <section className="w-full min-h-screen pt-32 pb-24 bg-charcoal">
+      <div className="max-w-5xl mx-auto px-6 md:px-12">
+        <div className="flex justify-between items-end mb-12">
+          <div>
+            <button onClick={onBack} className="flex items-center gap-2 font-sans text-xs tracking-widest text-offwhite/50 hover:text-softgold mb-4">
+              <ArrowLeft size={14} /> BACK
+            </button>
+            <h2 className="font-serif text-5xl text-offwhite">My Account</h2>
+            <p className="font-sans text-xs tracking-widest text-offwhite/40 mt-2">{user.email}</p>
+          </div>
+          <button onClick={handleExport} className="flex items-center gap-2 border border-offwhite/30 px-3 py-2 font-sans text-xs font-bold tracking-widest text-offwhite hover:bg-offwhite hover:text-charcoal transition-colors">
+            <Download size={12} /> EXPORT CSV
+          </button>
+        </div>
+
+        {wallet && wallet.balances.length > 0 && (
+          <div className="flex flex-wrap gap-8 mb-12 border-y border-offwhite/10 py-6">
+            {wallet.balances.map(balance => (
+              <div key={balance.currency} className="flex flex-col">
+                <span className="font-sans text-[10px] tracking-widest text-offwhite/40 uppercase">Wallet ({balance.currency})</span>
+                <span className="font-serif text-xl text-offwhite">{formatMoney(balance.available, balance.currency)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {orders.length > 0 && (
+          <div className="mb-12">
+            <h3 className="font-sans text-xs tracking-widest text-offwhite/50 mb-3">ORDERS</h3>
+            <div className="flex flex-col divide-y divide-offwhite/10 border-y border-offwhite/10">
+              {orders.map(order => (
+                <div key={order.id} className="grid grid-cols-12 gap-4 py-4 items-center">
+                  <span className="col-span-3 font-sans text-xs text-offwhite/50">{new Date(order.createdAt).toLocaleString()}</span>
+                  <span className="col-span-3 font-serif text-lg text-offwhite">{order.productName}</span>
+                  <span className="col-span-2 font-sans text-sm text-offwhite/70">{formatMoney(order.soldPrice, order.currency)}</span>
+                  <span className="col-span-4 font-sans text-[10px] tracking-widest text-softgold uppercase text-right">
+                    {order.status.replace('_', ' ')}{order.trackingNumber ? ` · ${order.trackingNumber}` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="font-sans text-xs text-red-400 mb-6">{error}</p>}
+
+        {history && history.total === 0 && (
+          <p className="font-sans text-sm text-offwhite/60">No activity yet. Reveal a price on any drop to get started.</p>
+        )}
+
+        {history && history.total > 0 && (
+          <>
+            <div className="flex flex-col divide-y divide-offwhite/10 border-y border-offwhite/10">
+              {history.entries.map((entry, i) => (
+                <div key={`${history.offset + i}`} className="grid grid-cols-12 gap-4 py-4 items-center">
+                  <span className="col-span-3 font-sans text-xs text-offwhite/50">{new Date(entry.at).toLocaleString()}</span>
+                  <span className="col-span-2 font-sans text-[10px] tracking-widest text-softgold uppercase">{ENTRY_LABELS[entry.type]}</span>
+                  <span className="col-span-3 font-serif text-lg text-offwhite">{entry.productName}</span>
+                  <span className="col-span-4 font-sans text-sm text-offwhite/70 text-right">{describe(entry)}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-between items-center mt-6 font-sans text-xs tracking-widest text-offwhite/50">
+              <span>{history.offset + 1}–{lastShown} OF {history.total}</span>
+              <div className="flex gap-4">
+                <button
+                  onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                  disabled={offset === 0}
+                  className="hover:text-softgold disabled:opacity-30 disabled:hover:text-offwhite/50"
+                >
+                  PREVIOUS
+                </button>
+                <button
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                  disabled={lastShown >= history.total}
+                  className="hover:text-softgold disabled:opacity-30 disabled:hover:text-offwhite/50"
+                >
+                  NEXT
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default AccountPage;
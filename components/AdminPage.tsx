@@ -0,0 +1,488 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Play, Pause, Square, RotateCcw, Pencil, Plus, Upload, Sparkles, Lock, BarChart3 } from 'lucide-react';
+import { CatalogueEntry } from '../types';
+import { AfterSalePolicy, RefundPolicy } from '../services/pricingEngine';
+import { AbuseFlagsResponse, AdminDropResponse, OrdersResponse } from '../services/apiSchema';
+import { AbuseFlag } from '../services/abuseMonitor';
+import { ADMIN_ORDER_STATUSES, ORDER_TRANSITIONS, Order, OrderStatus } from '../services/orders';
+import {
+  ApiClientError,
+  getAdminDrops,
+  getAdminOrders,
+  updateOrderStatus,
+  getAbuseFlags,
+  reviewAbuseFlag,
+  createDrop,
+  updateDrop,
+  setDropImage,
+  startDrop,
+  pauseDrop,
+  resumeDrop,
+  cancelDrop,
+  resetDrop,
+} from '../services/apiClient';
+import { ensureApiKey, generateProductImage } from '../services/geminiService';
+import { formatMoney, Money, SUPPORTED_CURRENCIES, CurrencyCode } from '../services/money';
+
+interface AdminPageProps {
+  onBack: () => void;
+  onCatalogueChange: () => void;   // storefront reloads the catalogue after edits
+  onOpenAnalytics: () => void;
+}
+
+// The admin token lives for the browser session; the analytics page reads it too
+export const ADMIN_TOKEN_KEY = 'qomo_admin_token';
+const POLL_INTERVAL_MS = 2000;
+
+const REFUND_POLICIES: RefundPolicy[] = ['NONE', 'FULL', 'PRO_RATA_CREDIT'];
+const AFTER_SALE_POLICIES: AfterSalePolicy[] = ['CONTINUE', 'RESET', 'HOLD'];
+
+// Starting point for a new drop; queue settings and price curve use engine defaults
+const NEW_DROP: CatalogueEntry = {
+  productId: '',
+  name: '',
+  supplierId: '',
+  currency: 'USD',
+  basePrice: 1000,
+  viewingFee: 1,
+  priceDropShare: 0.8,
+  platformShare: 0.2,
+  supplierShareOfPlatform: 0.25,
+  qomoShareOfPlatform: 0.75,
+  minPrice: 500,
+  display: { description: '', longDescription: '', placeholderUrl: '' },
+};
+
+// ISO 8601 <-> <input type="datetime-local"> (local time, minute precision)
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+const fromLocalInput = (value: string) => value ? new Date(value).toISOString() : undefined;
+
+const optionalNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const errorMessage = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+const inputClass = 'w-full bg-charcoal border border-offwhite/20 px-3 py-2 font-sans text-sm text-offwhite focus:border-softgold outline-none';
+const buttonClass = 'flex items-center gap-2 border border-offwhite/30 px-3 py-2 font-sans text-xs font-bold tracking-widest text-offwhite hover:bg-offwhite hover:text-charcoal transition-colors disabled:opacity-30 disabled:pointer-events-none';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="flex flex-col gap-1">
+    <span className="font-sans text-[10px] tracking-widest text-offwhite/40 uppercase">{label}</span>
+    {children}
+  </label>
+);
+
+interface DropEditorProps {
+  initial: CatalogueEntry;
+  isNew: boolean;
+  onSave: (entry: CatalogueEntry) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Create/edit form. Fields it doesn't show (price curve, queue settings) are
+ * carried over from the entry being edited; the server validates the result.
+ */
+const DropEditor: React.FC<DropEditorProps> = ({ initial, isNew, onSave, onClose }) => {
+  const [entry, setEntry] = useState<CatalogueEntry>(initial);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const set = (fields: Partial<CatalogueEntry>) => setEntry(prev => ({ ...prev, ...fields }));
+  const setDisplay = (fields: Partial<CatalogueEntry['display']>) =>
+    setEntry(prev => ({ ...prev, display: { ...prev.display, ...fields } }));
+
+  const numberInput = (field: keyof CatalogueEntry, step = '0.01') => (
+    <input
+      type="number"
+      step={step}
+      className={inputClass}
+      value={entry[field] === undefined ? '' : String(entry[field])}
+      onChange={(e) => set({ [field]: optionalNumber(e.target.value) })}
+    />
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(entry);
+      onClose();
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="border border-softgold/30 bg-white/5 p-6 mb-12 flex flex-col gap-6">
+      <h3 className="font-serif text-2xl text-offwhite">{isNew ? 'New Drop' : `Edit ${initial.name}`}</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Field label="Product ID">
+          <input className={inputClass} value={entry.productId} disabled={!isNew} onChange={(e) => set({ productId: e.target.value.trim() })} />
+        </Field>
+        <Field label="Name">
+          <input className={inputClass} value={entry.name} onChange={(e) => set({ name: e.target.value })} />
+        </Field>
+        <Field label="Supplier ID">
+          <input className={inputClass} value={entry.supplierId} onChange={(e) => set({ supplierId: e.target.value.trim() })} />
+        </Field>
+        <Field label="Currency">
+          <select className={inputClass} value={entry.currency} onChange={(e) => set({ currency: e.target.value as CurrencyCode })}>
+            {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+          </select>
+        </Field>
+        <Field label="Base price">{numberInput('basePrice')}</Field>
+        <Field label="Min price">{numberInput('minPrice')}</Field>
+        <Field label="Viewing fee">{numberInput('viewingFee')}</Field>
+        <Field label="Price drop share">{numberInput('priceDropShare')}</Field>
+        <Field label="Platform share">{numberInput('platformShare')}</Field>
+        <Field label="Supplier share of platform">{numberInput('supplierShareOfPlatform')}</Field>
+        <Field label="Qomo share of platform">{numberInput('qomoShareOfPlatform')}</Field>
+        <Field label="Quantity">{numberInput('quantity', '1')}</Field>
+        <Field label="After-sale policy">
+          <select className={inputClass} value={entry.afterSalePolicy ?? 'CONTINUE'} onChange={(e) => set({ afterSalePolicy: e.target.value as AfterSalePolicy })}>
+            {AFTER_SALE_POLICIES.map(policy => <option key={policy} value={policy}>{policy}</option>)}
+          </select>
+        </Field>
+        <Field label="Refund policy">
+          <select className={inputClass} value={entry.refundPolicy ?? 'NONE'} onChange={(e) => set({ refundPolicy: e.target.value as RefundPolicy })}>
+            {REFUND_POLICIES.map(policy => <option key={policy} value={policy}>{policy}</option>)}
+          </select>
+        </Field>
+        <Field label="Starts at (optional)">
+          <input type="datetime-local" className={inputClass} value={toLocalInput(entry.startsAt)} onChange={(e) => set({ startsAt: fromLocalInput(e.target.value) })} />
+        </Field>
+        <Field label="Ends at (optional)">
+          <input type="datetime-local" className={inputClass} value={toLocalInput(entry.endsAt)} onChange={(e) => set({ endsAt: fromLocalInput(e.target.value) })} />
+        </Field>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4">
+        <Field label="Card description">
+          <input className={inputClass} value={entry.display.description} onChange={(e) => setDisplay({ description: e.target.value })} />
+        </Field>
+        <Field label="Long description">
+          <textarea rows={3} className={inputClass} value={entry.display.longDescription} onChange={(e) => setDisplay({ longDescription: e.target.value })} />
+        </Field>
+        <Field label="Placeholder image URL">
+          <input className={inputClass} value={entry.display.placeholderUrl} onChange={(e) => setDisplay({ placeholderUrl: e.target.value })} />
+        </Field>
+      </div>
+
+      {error && <pre className="font-sans text-xs text-red-400 whitespace-pre-wrap">{error}</pre>}
+
+      <div className="flex gap-4">
+        <button type="submit" disabled={isSaving} className="bg-softgold text-charcoal px-6 py-3 font-sans text-xs font-bold tracking-widest hover:bg-white transition-colors disabled:opacity-50">
+          {isSaving ? 'SAVING...' : isNew ? 'CREATE DROP' : 'SAVE CHANGES'}
+        </button>
+        <button type="button" onClick={onClose} className={buttonClass}>CANCEL</button>
+      </div>
+    </form>
+  );
+};
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex flex-col">
+    <span className="font-sans text-[10px] tracking-widest text-offwhite/40 uppercase">{label}</span>
+    <span className="font-sans text-sm text-offwhite">{value}</span>
+  </div>
+);
+
+const AdminPage: React.FC<AdminPageProps> = ({ onBack, onCatalogueChange, onOpenAnalytics }) => {
+  const [token, setToken] = useState<string | null>(() => sessionStorage.getItem(ADMIN_TOKEN_KEY));
+  const [tokenInput, setTokenInput] = useState('');
+  const [drops, setDrops] = useState<AdminDropResponse[]>([]);
+  const [orders, setOrders] = useState<OrdersResponse>([]);
+  const [flags, setFlags] = useState<AbuseFlagsResponse>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ entry: CatalogueEntry; isNew: boolean } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const signOut = () => {
+    sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+    setToken(null);
+    setDrops([]);
+    setOrders([]);
+    setFlags([]);
+  };
+
+  const refresh = async (adminToken: string) => {
+    try {
+      const [latestDrops, latestOrders, openFlags] = await Promise.all([
+        getAdminDrops(adminToken),
+        getAdminOrders(adminToken),
+        getAbuseFlags(adminToken, 'OPEN'),
+      ]);
+      setDrops(latestDrops);
+      setOrders(latestOrders);
+      setFlags(openFlags);
+      setError(null);
+    } catch (err) {
+      if (err instanceof ApiClientError && err.status === 401) {
+        signOut();
+        setError('That admin token was rejected.');
+      } else {
+        setError(errorMessage(err));
+      }
+    }
+  };
+
+  // Live state: poll while signed in
+  useEffect(() => {
+    if (!token) return;
+    refresh(token);
+    const interval = setInterval(() => refresh(token), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [token]);
+
+  const handleSignIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tokenInput.trim()) return;
+    sessionStorage.setItem(ADMIN_TOKEN_KEY, tokenInput.trim());
+    setToken(tokenInput.trim());
+    setTokenInput('');
+  };
+
+  // Runs an admin action against one drop, then reloads admin and storefront data
+  const runAction = async (productId: string, action: () => Promise<unknown>) => {
+    if (!token) return;
+    setBusyId(productId);
+    try {
+      await action();
+      onCatalogueChange();
+      await refresh(token);
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSave = async (edited: CatalogueEntry) => {
+    // The image has its own upload route; the server keeps the stored one
+    const { imageUrl, ...display } = edited.display;
+    const entry = { ...edited, display };
+    if (editing?.isNew) {
+      await createDrop(token!, entry);
+    } else {
+      await updateDrop(token!, entry);
+    }
+    onCatalogueChange();
+    await refresh(token!);
+  };
+
+  const handleUpload = (productId: string, file: File | undefined) => {
+    if (!file) return;
+    runAction(productId, async () => setDropImage(token!, productId, await readFileAsDataUrl(file)));
+  };
+
+  const handleGenerate = (entry: CatalogueEntry) =>
+    runAction(entry.productId, async () => {
+      if (!(await ensureApiKey())) throw new Error('An API key is needed to generate images.');
+      const imageUrl = await generateProductImage(entry.name, '1K');
+      if (!imageUrl) throw new Error(`No image was generated for ${entry.name}.`);
+      await setDropImage(token!, entry.productId, imageUrl);
+    });
+
+  const handleReset = (productId: string) => {
+    if (!window.confirm(`Reset ${productId}? Its event log is kept, but fees already charged are not refunded.`)) return;
+    runAction(productId, () => resetDrop(token!, productId));
+  };
+
+  const handleOrderStatus = (order: Order, status: OrderStatus) => {
+    const trackingNumber = status === 'SHIPPED' ? window.prompt(`Tracking number for ${order.productName}?`) || undefined : undefined;
+    if ((status === 'CANCELLED' || status === 'RETURNED') && order.status !== 'PENDING_PAYMENT'
+      && !window.confirm(`Mark this order ${status.toLowerCase()}? The ${formatMoney(order.soldPrice, order.currency)} sale is not refunded automatically.`)) return;
+    runAction(order.id, () => updateOrderStatus(token!, order.id, { status, trackingNumber }));
+  };
+
+  const handleReview = (flag: AbuseFlag, status: 'DISMISSED' | 'CONFIRMED') => {
+    if (status === 'CONFIRMED' && !window.confirm(`Block ${flag.userIds.length} account(s) from drops?`)) return;
+    runAction(flag.id, () => reviewAbuseFlag(token!, flag.id, { status }));
+  };
+
+  if (!token) {
+    return (
+      <section className="w-full min-h-screen pt-32 pb-24 bg-charcoal flex items-center justify-center">
+        <form onSubmit={handleSignIn} className="w-full max-w-sm flex flex-col gap-4 px-6">
+          <h2 className="font-serif text-4xl text-offwhite flex items-center gap-3"><Lock size={28} /> Admin</h2>
+          <Field label="Admin token">
+            <input type="password" className={inputClass} value={tokenInput} onChange={(e) => setTokenInput(e.target.value)} autoFocus />
+          </Field>
+          {error && <p className="font-sans text-xs text-red-400">{error}</p>}
+          <button type="submit" className="bg-softgold text-charcoal py-3 font-sans text-xs font-bold tracking-widest hover:bg-white transition-colors">
+            SIGN IN
+          </button>
+          <button type="button" onClick={onBack} className="font-sans text-xs tracking-widest text-offwhite/50 hover:text-softgold">
+            BACK
+          </button>
+        </form>
+      </section>
+    );
+  }
+
+  return (
+    <section className="w-full min-h-screen pt-32 pb-24 bg-charcoal">
+      <div className="max-w-7xl mx-auto px-6 md:px-12">
+        <div className="flex justify-between items-end mb-12">
+          <div>
+            <button onClick={onBack} className="flex items-center gap-2 font-sans text-xs tracking-widest text-offwhite/50 hover:text-softgold mb-4">
+              <ArrowLeft size={14} /> BACK
+            </button>
+            <h2 className="font-serif text-5xl text-offwhite">Drop Admin</h2>
+          </div>
+          <div className="flex gap-4">
+            <button onClick={() => setEditing({ entry: NEW_DROP, isNew: true })} className={buttonClass}>
+              <Plus size={14} /> NEW DROP
+            </button>
+            <button onClick={onOpenAnalytics} className={buttonClass}>
+              <BarChart3 size={14} /> ANALYTICS
+            </button>
+            <button onClick={signOut} className={buttonClass}>SIGN OUT</button>
+          </div>
+        </div>
+
+        {error && <p className="font-sans text-xs text-red-400 mb-6 whitespace-pre-wrap">{error}</p>}
+
+        {editing && (
+          <DropEditor
+            key={editing.isNew ? 'new' : editing.entry.productId}
+            initial={editing.entry}
+            isNew={editing.isNew}
+            onSave={handleSave}
+            onClose={() => setEditing(null)}
+          />
+        )}
+
+        <div className="flex flex-col gap-6">
+          {drops.map(({ entry, state }) => {
+            const busy = busyId === entry.productId;
+            const money = (amount: Money) => formatMoney(amount, state.currency);
+            return (
+              <div key={entry.productId} className="border border-offwhite/10 p-6 flex flex-col md:flex-row gap-6">
+                <img
+                  src={entry.display.imageUrl || entry.display.placeholderUrl}
+                  alt={entry.name}
+                  className="w-32 h-32 object-cover bg-white/5"
+                />
+                <div className="flex-1 flex flex-col gap-4">
+                  <div className="flex items-center gap-4">
+                    <h3 className="font-serif text-2xl text-offwhite">{entry.name}</h3>
+                    <span className="font-sans text-[10px] tracking-widest border border-softgold/40 text-softgold px-2 py-1">{state.phase}</span>
+                    <span className="font-sans text-xs text-offwhite/40">{entry.productId} · {entry.supplierId}</span>
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <Stat label="Current price" value={money(state.currentPrice)} />
+                    <Stat label="Units left" value={`${state.unitsRemaining} / ${entry.quantity ?? 1}`} />
+                    <Stat label="Views" value={state.totalViews} />
+                    <Stat label="Queue" value={state.queue.length} />
+                    <Stat label="Lock holder" value={state.activeViewerId ?? state.claimViewerId ?? '—'} />
+                    <Stat label="Platform revenue" value={money(state.totalPlatformRevenue)} />
+                    <Stat label="Supplier share" value={money(state.totalSupplierPlatformRevenue)} />
+                    <Stat label="Qomo revenue" value={money(state.totalQomoRevenue)} />
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    <button disabled={busy || state.phase !== 'SCHEDULED'} onClick={() => runAction(entry.productId, () => startDrop(token, entry.productId))} className={buttonClass}>
+                      <Play size={12} /> START
+                    </button>
+                    {state.phase === 'PAUSED' ? (
+                      <button disabled={busy} onClick={() => runAction(entry.productId, () => resumeDrop(token, entry.productId))} className={buttonClass}>
+                        <Play size={12} /> RESUME
+                      </button>
+                    ) : (
+                      <button disabled={busy || state.phase !== 'LIVE'} onClick={() => runAction(entry.productId, () => pauseDrop(token, entry.productId))} className={buttonClass}>
+                        <Pause size={12} /> PAUSE
+                      </button>
+                    )}
+                    <button disabled={busy || state.phase === 'SOLD' || state.phase === 'ENDED'} onClick={() => runAction(entry.productId, () => cancelDrop(token, entry.productId))} className={buttonClass}>
+                      <Square size={12} /> END
+                    </button>
+                    <button disabled={busy} onClick={() => handleReset(entry.productId)} className={buttonClass}>
+                      <RotateCcw size={12} /> RESET
+                    </button>
+                    <button disabled={busy} onClick={() => setEditing({ entry, isNew: false })} className={buttonClass}>
+                      <Pencil size={12} /> EDIT
+                    </button>
+                    <label className={`${buttonClass} cursor-pointer ${busy ? 'opacity-30 pointer-events-none' : ''}`}>
+                      <Upload size={12} /> UPLOAD IMAGE
+                      <input type="file" accept="image/*" className="hidden" onChange={(e) => handleUpload(entry.productId, e.target.files?.[0])} />
+                    </label>
+                    <button disabled={busy} onClick={() => handleGenerate(entry)} className={buttonClass}>
+                      <Sparkles size={12} /> GENERATE IMAGE
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <h3 className="font-serif text-3xl text-offwhite mt-16 mb-6">Orders</h3>
+        {orders.length === 0 && <p className="font-sans text-sm text-offwhite/40">No orders yet.</p>}
+        <div className="flex flex-col divide-y divide-offwhite/10 border-y border-offwhite/10">
+          {orders.map(order => (
+            <div key={order.id} className="py-4 flex flex-col md:flex-row md:items-center gap-4">
+              <div className="flex-1 grid grid-cols-2 md:grid-cols-5 gap-4">
+                <Stat label="Order" value={order.id.slice(-8).toUpperCase()} />
+                <Stat label="Item" value={order.productName} />
+                <Stat label="Price" value={formatMoney(order.soldPrice, order.currency)} />
+                <Stat label="Ship to" value={`${order.shippingAddress.name}, ${order.shippingAddress.city}, ${order.shippingAddress.country}`} />
+                <Stat label="Status" value={order.trackingNumber ? `${order.status} · ${order.trackingNumber}` : order.status} />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {ORDER_TRANSITIONS[order.status].filter(next => ADMIN_ORDER_STATUSES.includes(next)).map(next => (
+                  <button key={next} disabled={busyId === order.id} onClick={() => handleOrderStatus(order, next)} className={buttonClass}>
+                    {next.replace('_', ' ')}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <h3 className="font-serif text-3xl text-offwhite mt-16 mb-6">Abuse review</h3>
+        {flags.length === 0 && <p className="font-sans text-sm text-offwhite/40">Nothing flagged.</p>}
+        <div className="flex flex-col divide-y divide-offwhite/10 border-y border-offwhite/10">
+          {flags.map(flag => (
+            <div key={flag.id} className="py-4 flex flex-col md:flex-row md:items-center gap-4">
+              <div className="flex-1 grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Stat label="Signal" value={flag.signal.replace(/_/g, ' ')} />
+                <Stat label="Subject" value={flag.subject} />
+                <Stat label="Accounts" value={flag.userIds.join(', ')} />
+                <Stat label="Last seen" value={new Date(flag.updatedAt).toLocaleString()} />
+                <p className="col-span-2 md:col-span-4 font-sans text-xs text-offwhite/50">{flag.detail}</p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button disabled={busyId === flag.id} onClick={() => handleReview(flag, 'DISMISSED')} className={buttonClass}>
+                  DISMISS
+                </button>
+                <button disabled={busyId === flag.id} onClick={() => handleReview(flag, 'CONFIRMED')} className={buttonClass}>
+                  BLOCK
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default AdminPage;
@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, RefreshCw } from 'lucide-react';
+import { AnalyticsResponse } from '../services/apiSchema';
+import { DropAnalytics, PricePoint } from '../services/analytics';
+import { ApiClientError, getAnalytics } from '../services/apiClient';
+import { formatMoney, Money, CurrencyCode } from '../services/money';
+import { ADMIN_TOKEN_KEY } from './AdminPage';
+
+interface AnalyticsPageProps {
+  onBack: () => void;            // back to the admin console (sign-in lives there)
+}
+
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 120;
+
+const percent = (rate: number | null) => rate === null ? '—' : `${(rate * 100).toFixed(1)}%`;
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—';
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+const Metric: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex flex-col">
+    <span className="font-sans text-[10px] tracking-widest text-offwhite/40 uppercase">{label}</span>
+    <span className="font-serif text-xl text-offwhite">{value}</span>
+  </div>
+);
+
+/**
+ * Price over time as an SVG step line; dots mark sales.
+ */
+const PriceChart: React.FC<{ points: PricePoint[]; sales: number[]; currency: CurrencyCode }> = ({ points, sales, currency }) => {
+  if (points.length < 2) {
+    return <p className="font-sans text-xs text-offwhite/30">No price movement yet.</p>;
+  }
+
+  const start = points[0].at;
+  const span = Math.max(points[points.length - 1].at - start, 1);
+  const maxPrice = Math.max(...points.map(p => p.price));
+  const minPrice = Math.min(...points.map(p => p.price));
+  const range = Math.max(maxPrice - minPrice, 1);
+
+  const x = (at: number) => ((at - start) / span) * CHART_WIDTH;
+  const y = (price: number) => CHART_HEIGHT - ((price - minPrice) / range) * CHART_HEIGHT;
+
+  // Step line: the price holds until the next event moves it
+  const path = points
+    .map((point, i) => i === 0
+      ? `M ${x(point.at)} ${y(point.price)}`
+      : `H ${x(point.at)} V ${y(point.price)}`)
+    .join(' ');
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-32 overflow-visible">
+        <path d={path} fill="none" stroke="currentColor" strokeWidth={1.5} vectorEffect="non-scaling-stroke" className="text-softgold" />
+        {sales.map((at) => {
+          const sold = points.find(point => point.at === at);
+          return sold && <circle key={at} cx={x(at)} cy={y(sold.price)} r={3} className="fill-offwhite" />;
+        })}
+      </svg>
+      <div className="flex justify-between font-sans text-[10px] text-offwhite/40 mt-1">
+        <span>{formatMoney(maxPrice as Money, currency)}</span>
+        <span>{formatMoney(minPrice as Money, currency)}</span>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Horizontal bars scaled against the largest value in the group.
+ */
+const Bars: React.FC<{ rows: { label: string; value: number; display: string }[] }> = ({ rows }) => {
+  const max = Math.max(...rows.map(row => row.value), 1);
+  return (
+    <div className="flex flex-col gap-2">
+      {rows.map(row => (
+        <div key={row.label}>
+          <div className="flex justify-between font-sans text-[10px] tracking-widest text-offwhite/50 uppercase mb-1">
+            <span>{row.label}</span>
+            <span>{row.display}</span>
+          </div>
+          <div className="h-2 bg-white/5">
+            <div className="h-2 bg-softgold" style={{ width: `${(row.value / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const DropPanel: React.FC<{ drop: DropAnalytics }> = ({ drop }) => {
+  const money = (amount: Money | null) => amount === null ? '—' : formatMoney(amount, drop.currency);
+
+  return (
+    <div className="border border-offwhite/10 p-6 flex flex-col gap-6">
+      <div className="flex items-center gap-4">
+        <h3 className="font-serif text-2xl text-offwhite">{drop.name}</h3>
+        <span className="font-sans text-[10px] tracking-widest border border-softgold/40 text-softgold px-2 py-1">{drop.phase}</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Metric label="Units sold" value={`${drop.unitsSold} / ${drop.quantity}`} />
+        <Metric label="Views to first sale" value={drop.viewsToFirstSale ?? '—'} />
+        <Metric label="Avg views per sale" value={drop.avgViewsPerSale === null ? '—' : drop.avgViewsPerSale.toFixed(1)} />
+        <Metric label="Time to first sale" value={formatDuration(drop.timeToFirstSaleMs)} />
+        <Metric label="Fee revenue" value={money(drop.feeRevenue)} />
+        <Metric label="Discount given" value={money(drop.discountGiven)} />
+        <Metric label="Avg discount" value={`${money(drop.avgDiscount)} (${percent(drop.avgDiscountRate)})`} />
+        <Metric label="Lock → purchase" value={percent(drop.lockConversionRate)} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+        <div>
+          <h4 className="font-sans text-xs tracking-widest text-offwhite/50 mb-3">PRICE</h4>
+          <PriceChart points={drop.priceHistory} sales={drop.sales.map(sale => sale.at)} currency={drop.currency} />
+        </div>
+        <div>
+          <h4 className="font-sans text-xs tracking-widest text-offwhite/50 mb-3">FEES VS DISCOUNT</h4>
+          <Bars rows={[
+            { label: 'Fee revenue', value: drop.feeRevenue, display: money(drop.feeRevenue) },
+            { label: 'Discount given', value: drop.discountGiven, display: money(drop.discountGiven) },
+          ]} />
+        </div>
+        <div>
+          <h4 className="font-sans text-xs tracking-widest text-offwhite/50 mb-3">FUNNEL</h4>
+          <Bars rows={[
+            { label: 'Queue joins', value: drop.queueJoins, display: String(drop.queueJoins) },
+            { label: `Abandoned (${percent(drop.queueAbandonmentRate)})`, value: drop.queueAbandoned, display: String(drop.queueAbandoned) },
+            { label: 'Locks taken', value: drop.locksTaken, display: String(drop.locksTaken) },
+            { label: 'Expired / released', value: drop.locksExpired + drop.locksReleased, display: `${drop.locksExpired} / ${drop.locksReleased}` },
+            { label: 'Purchases', value: drop.unitsSold, display: String(drop.unitsSold) },
+          ]} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ onBack }) => {
+  const [token] = useState(() => sessionStorage.getItem(ADMIN_TOKEN_KEY));
+  const [data, setData] = useState<AnalyticsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    if (!token) return;
+    try {
+      setData(await getAnalytics(token));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof ApiClientError && err.status === 401
+        ? 'Your admin session has expired. Sign in again on the admin page.'
+        : err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [token]);
+
+  return (
+    <section className="w-full min-h-screen pt-32 pb-24 bg-charcoal">
+      <div className="max-w-7xl mx-auto px-6 md:px-12">
+        <div className="flex justify-between items-end mb-12">
+          <div>
+            <button onClick={onBack} className="flex items-center gap-2 font-sans text-xs tracking-widest text-offwhite/50 hover:text-softgold mb-4">
+              <ArrowLeft size={14} /> ADMIN
+            </button>
+            <h2 className="font-serif text-5xl text-offwhite">Drop Analytics</h2>
+          </div>
+          {token && (
+            <button onClick={load} className="flex items-center gap-2 border border-offwhite/30 px-3 py-2 font-sans text-xs font-bold tracking-widest text-offwhite hover:bg-offwhite hover:text-charcoal transition-colors">
+              <RefreshCw size={12} /> REFRESH
+            </button>
+          )}
+        </div>
+
+        {!token && <p className="font-sans text-sm text-offwhite/60">Sign in on the admin page to see analytics.</p>}
+        {error && <p className="font-sans text-xs text-red-400 mb-6">{error}</p>}
+
+        {data && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-6 mb-12 border-y border-offwhite/10 py-6">
+              <Metric label="Drops" value={data.summary.drops} />
+              <Metric label="Views" value={data.summary.views} />
+              <Metric label="Units sold" value={data.summary.unitsSold} />
+              <Metric label="Lock → purchase" value={percent(data.summary.lockConversionRate)} />
+              <Metric label="Queue abandonment" value={percent(data.summary.queueAbandonmentRate)} />
+              {data.summary.byCurrency.map(totals => (
+                <React.Fragment key={totals.currency}>
+                  <Metric label={`Fee revenue (${totals.currency})`} value={formatMoney(totals.feeRevenue, totals.currency)} />
+                  <Metric label={`Discount given (${totals.currency})`} value={formatMoney(totals.discountGiven, totals.currency)} />
+                </React.Fragment>
+              ))}
+            </div>
+
+            <div className="flex flex-col gap-8">
+              {data.drops.map(drop => <DropPanel key={drop.productId} drop={drop} />)}
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default AnalyticsPage;
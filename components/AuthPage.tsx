@@ -1,22 +1,31 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
+import { login, signup } from '../services/apiClient';
+import { SessionResponse } from '../services/apiSchema';
 
 interface AuthPageProps {
-  onLogin: () => void;
+  onLogin: (session: SessionResponse) => void;
 }
 
 const AuthPage: React.FC<AuthPageProps> = ({ onLogin }) => {
   const [isLogin, setIsLogin] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
-    // Simulate network delay for auth
-    setTimeout(() => {
+    setError(null);
+
+    try {
+      onLogin(isLogin ? await login(email, password) : await signup(email, password));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
       setIsLoading(false);
-      onLogin();
-    }, 1000);
+    }
   };
 
   return (
@@ -46,6 +55,8 @@ const AuthPage: React.FC<AuthPageProps> = ({ onLogin }) => {
             <input 
               type="email" 
               required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
               className="w-full bg-charcoal/50 border border-offwhite/20 rounded-lg px-4 py-3 text-offwhite placeholder-offwhite/30 focus:outline-none focus:border-softgold transition-colors font-sans"
               placeholder="enter@email.com"
             />
@@ -56,11 +67,15 @@ const AuthPage: React.FC<AuthPageProps> = ({ onLogin }) => {
             <input 
               type="password" 
               required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
               className="w-full bg-charcoal/50 border border-offwhite/20 rounded-lg px-4 py-3 text-offwhite placeholder-offwhite/30 focus:outline-none focus:border-softgold transition-colors font-sans"
               placeholder="••••••••"
             />
           </div>
 
+          {error && <p className="font-sans text-xs text-red-400">{error}</p>}
+
           <button 
             type="submit"
             disabled={isLoading}
@@ -76,7 +91,10 @@ const AuthPage: React.FC<AuthPageProps> = ({ onLogin }) => {
 
         <div className="mt-8 text-center">
           <button 
-            onClick={() => setIsLogin(!isLogin)}
+            onClick={() => {
+              setIsLogin(!isLogin);
+              setError(null);
+            }}
             className="text-xs font-sans text-offwhite/40 hover:text-offwhite transition-colors border-b border-transparent hover:border-offwhite/40 pb-1"
           >
             {isLogin ? "Don't have an account? Sign Up" : "Already have an account? Log In"}
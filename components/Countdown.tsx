@@ -0,0 +1,45 @@
+import React, { useState, useEffect } from 'react';
+
+/**
+ * Current time, re-read every `intervalMs` so time-based UI re-renders.
+ */
+export const useNow = (intervalMs: number = 1000): number => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+};
+
+/**
+ * "2D 04:12:09" / "04:12:09" for a duration in ms.
+ */
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const clock = [
+    Math.floor((totalSeconds % 86400) / 3600),
+    Math.floor((totalSeconds % 3600) / 60),
+    totalSeconds % 60,
+  ].map(n => String(n).padStart(2, '0')).join(':');
+  return days > 0 ? `${days}D ${clock}` : clock;
+};
+
+/**
+ * True while a product's drop is scheduled for the future.
+ */
+export const isUpcoming = (product: { startsAt?: string }, now: number): boolean =>
+  product.startsAt !== undefined && Date.parse(product.startsAt) > now;
+
+interface CountdownProps {
+  target: string;                // ISO 8601
+  className?: string;
+}
+
+export const Countdown: React.FC<CountdownProps> = ({ target, className }) => {
+  const now = useNow();
+  return <span className={className}>{formatCountdown(Date.parse(target) - now)}</span>;
+};
@@ -2,6 +2,7 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { Product } from '../types';
 import { ProductCard } from './ProductCard';
+import { isUpcoming, useNow } from './Countdown';
 
 interface DropsPageProps {
   products: Product[];
@@ -9,6 +10,11 @@ interface DropsPageProps {
 }
 
 const DropsPage: React.FC<DropsPageProps> = ({ products, onSelectProduct }) => {
+  // Re-render as start times pass so drops move from Upcoming to Current
+  const now = useNow();
+  const currentDrops = products.filter(p => !isUpcoming(p, now));
+  const upcomingDrops = products.filter(p => isUpcoming(p, now));
+
   return (
     <section className="w-full min-h-screen pt-32 pb-24 bg-charcoal relative">
       <div className="max-w-7xl mx-auto px-6 md:px-12">
@@ -22,7 +28,7 @@ const DropsPage: React.FC<DropsPageProps> = ({ products, onSelectProduct }) => {
         </motion.div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-12 justify-items-center">
-          {products.map((product) => (
+          {currentDrops.map((product) => (
             <ProductCard 
               key={product.id} 
               product={product} 
@@ -30,6 +36,25 @@ const DropsPage: React.FC<DropsPageProps> = ({ products, onSelectProduct }) => {
             />
           ))}
         </div>
+
+        {upcomingDrops.length > 0 && (
+          <>
+            <div className="mt-24 mb-16 text-center">
+              <h2 className="font-serif text-4xl md:text-5xl text-offwhite mb-4">Upcoming Drops</h2>
+              <p className="font-sans text-offwhite/50 text-sm tracking-widest uppercase">Prices unlock when the countdown ends</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-12 justify-items-center">
+              {upcomingDrops.map((product) => (
+                <ProductCard 
+                  key={product.id} 
+                  product={product} 
+                  onSelect={onSelectProduct} 
+                />
+              ))}
+            </div>
+          </>
+        )}
       </div>
     </section>
   );
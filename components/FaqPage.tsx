@@ -14,12 +14,16 @@ const faqData: FaqItem[] = [
   },
   {
     question: "How does the viewing fee work?",
-    answer: "You pay a fixed fee (for example, $5) to unlock the current price of a specific product. That fee is non-refundable and is how we separate serious buyers from casual browsers."
+    answer: "You pay a fixed fee (for example, $5) from your Qomo wallet to unlock the current price of a specific product. The fee is how we separate serious buyers from casual browsers, and it isn’t refunded while the drop is live."
   },
   {
     question: "What happens to my viewing fee if I don’t buy?",
     answer: "You still paid to reveal the price, so the fee is not refunded. But your view still matters: it helps nudge the price lower for the next buyer and generates platform rewards for suppliers and Qomo."
   },
+  {
+    question: "What if a drop ends without selling?",
+    answer: "Drops can close unsold when their end time passes or if Qomo cancels them. Each drop has its own refund policy: some keep viewing fees, some refund them in full, and some return the part of your fees that went towards lowering the price as wallet credit."
+  },
   {
     question: "How does the price actually drop?",
     answer: "A portion of every viewing fee is used to reduce the product’s live price. As more people view without buying, the price continues to step down until someone decides to purchase."
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Product } from '../types';
 import { ProductCard } from './ProductCard';
+import { isUpcoming, useNow } from './Countdown';
 
 interface FeaturedDropsProps {
   products: Product[];
@@ -11,6 +12,13 @@ const FeaturedDrops: React.FC<FeaturedDropsProps> = ({
   products, 
   onSelectProduct
 }) => {
+  // Live drops first, then upcoming ones with their countdowns
+  const now = useNow();
+  const ordered = [
+    ...products.filter(p => !isUpcoming(p, now)),
+    ...products.filter(p => isUpcoming(p, now)),
+  ];
+
   return (
     <section className="w-full py-24 bg-charcoal relative">
       <div className="max-w-7xl mx-auto px-6 md:px-12">
@@ -25,7 +33,7 @@ const FeaturedDrops: React.FC<FeaturedDropsProps> = ({
 
         {/* Product Grid */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-12 justify-items-center">
-          {products.map((product) => (
+          {ordered.map((product) => (
             <ProductCard 
               key={product.id} 
               product={product} 
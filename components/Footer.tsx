@@ -2,9 +2,10 @@ import React from 'react';
 
 interface FooterProps {
   onFaqClick: () => void;
+  onAdminClick: () => void;
 }
 
-const Footer: React.FC<FooterProps> = ({ onFaqClick }) => {
+const Footer: React.FC<FooterProps> = ({ onFaqClick, onAdminClick }) => {
   return (
     <footer className="w-full py-12 bg-charcoal border-t border-offwhite/5 text-offwhite/40">
       <div className="max-w-7xl mx-auto px-6 md:px-12 flex flex-col md:flex-row justify-between items-center gap-6">
@@ -14,6 +15,7 @@ const Footer: React.FC<FooterProps> = ({ onFaqClick }) => {
         <div className="flex gap-8 font-sans text-xs tracking-widest">
           <a href="#" className="hover:text-softgold transition-colors">ABOUT</a>
           <button onClick={onFaqClick} className="hover:text-softgold transition-colors uppercase">FAQ</button>
+          <button onClick={onAdminClick} className="hover:text-softgold transition-colors uppercase">ADMIN</button>
         </div>
 
         <div className="font-sans text-xs">
@@ -1,6 +1,7 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { Product } from '../types';
+import { Countdown, isUpcoming } from './Countdown';
 
 interface ProductCardProps {
   product: Product;
@@ -8,6 +9,8 @@ interface ProductCardProps {
 }
 
 export const ProductCard: React.FC<ProductCardProps> = ({ product, onSelect }) => {
+  const upcoming = isUpcoming(product, Date.now());
+
   return (
     <motion.div 
       initial={{ opacity: 0 }}
@@ -33,6 +36,13 @@ export const ProductCard: React.FC<ProductCardProps> = ({ product, onSelect }) =
             </div>
         )}
         
+        {/* Upcoming Badge */}
+        {upcoming && (
+            <div className="absolute top-4 left-4 z-20">
+                <span className="text-[10px] font-sans bg-charcoal/80 text-softgold border border-softgold/40 px-2 py-1 font-bold tracking-widest">UPCOMING</span>
+            </div>
+        )}
+
         {/* Subtle Gradient Overlay */}
         {!product.generatedImage && (
            <div className="absolute inset-0 bg-gradient-to-t from-charcoal/20 to-transparent pointer-events-none" />
@@ -43,12 +53,19 @@ export const ProductCard: React.FC<ProductCardProps> = ({ product, onSelect }) =
       <div className="flex flex-col items-center text-center flex-grow w-full">
         <h3 className="font-serif text-2xl text-offwhite mb-2">{product.name}</h3>
         <p className="font-sans text-sm text-offwhite/50 mb-6 flex-grow">{product.description}</p>
+        {product.quantity > 1 && (
+          <p className="font-sans text-[10px] tracking-widest text-softgold/80 -mt-4 mb-6">{product.quantity} UNITS IN THIS DROP</p>
+        )}
         
         <button 
           onClick={() => onSelect(product.id)}
           className="w-full mt-auto border border-offwhite/20 text-offwhite py-3 font-sans text-xs tracking-widest hover:bg-softgold hover:border-softgold hover:text-charcoal transition-all duration-300"
         >
-          VIEW PRICE
+          {upcoming ? (
+            <>STARTS IN <Countdown target={product.startsAt!} /></>
+          ) : (
+            'VIEW PRICE'
+          )}
         </button>
       </div>
     </motion.div>
@@ -1,60 +1,123 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft, Eye, TrendingDown, DollarSign, CheckCircle, Clock, X, Users } from 'lucide-react';
+import { ArrowLeft, Eye, TrendingDown, DollarSign, CheckCircle, Clock, X, Users, Wallet, Ban, Pause, CalendarClock } from 'lucide-react';
 import { Product } from '../types';
-import { DropState } from '../services/pricingEngine';
-import { getStatus, postView, postBuy, postCancel } from '../services/api';
-import productsConfig from '../config/products';
+import { DropConfig, ViewerDropState } from '../services/pricingEngine';
+import { getStatus, postView, postBuy, postCancel, subscribeToDrop, getWallet, postTopUp } from '../services/apiClient';
 import { AIPriceAnalyst } from './AIPriceAnalyst';
+import { Countdown } from './Countdown';
+import { formatMoney, formatMajor, fromMajor, Money, ZERO } from '../services/money';
+import { FAKE_APPROVE_TOKEN } from '../services/paymentProvider';
+import { Order, ShippingAddress } from '../services/orders';
 
 interface ProductDetailPageProps {
   product: Product;
+  config: DropConfig | undefined; // from the API catalogue
+  viewerId: string;               // signed-in user; the server takes it from the session
   onBack: () => void;
 }
 
-const PRODUCT_DESCRIPTIONS: Record<string, string> = {
-  iphone17: "Forged in aerospace-grade titanium, the iPhone 17 Pro features the revolutionary A19 Pro chip for tailored performance. The all-new 48MP camera system captures life with unprecedented clarity, while the always-on Super Retina XDR display brings content to life.",
-  ps5slim: "Experience lightning-fast loading with an ultra-high speed SSD, deeper immersion with support for haptic feedback, adaptive triggers, and 3D Audio, and an all-new generation of incredible PlayStation® games.",
-  macbookairm4: "Supercharged by the M4 chip, the redesigned MacBook Air combines incredible performance and up to 18 hours of battery life into its strikingly thin aluminum enclosure. Silent, powerful, and ready for anything."
+// Fixed top-up amount (major units) until a real checkout flow exists
+const TOP_UP_AMOUNT = 100;
+
+// The last address used at checkout prefills the next one
+const ADDRESS_KEY = 'qomo_shipping_address';
+
+const EMPTY_ADDRESS: ShippingAddress = { name: '', line1: '', line2: '', city: '', region: '', postalCode: '', country: '' };
+
+const ADDRESS_FIELDS: { field: keyof ShippingAddress; label: string; required: boolean }[] = [
+  { field: 'name', label: 'FULL NAME', required: true },
+  { field: 'line1', label: 'ADDRESS', required: true },
+  { field: 'line2', label: 'APT / SUITE', required: false },
+  { field: 'city', label: 'CITY', required: true },
+  { field: 'region', label: 'STATE / REGION', required: false },
+  { field: 'postalCode', label: 'POSTAL CODE', required: true },
+  { field: 'country', label: 'COUNTRY', required: true },
+];
+
+const loadSavedAddress = (): ShippingAddress => {
+  try {
+    return { ...EMPTY_ADDRESS, ...JSON.parse(localStorage.getItem(ADDRESS_KEY) || '{}') };
+  } catch {
+    return EMPTY_ADDRESS;
+  }
 };
 
-// Generate or retrieve a persistent viewer ID for this session
-const getViewerId = () => {
-    const key = 'qomo_viewer_id';
-    let id = localStorage.getItem(key);
-    if (!id) {
-        id = `viewer_${Math.random().toString(36).substr(2, 9)}`;
-        localStorage.setItem(key, id);
-    }
-    return id;
-};
+// Optional fields left blank are left out rather than sent empty
+const toShippingAddress = ({ line2, region, ...required }: ShippingAddress): ShippingAddress => ({
+  ...required,
+  ...(line2?.trim() ? { line2 } : {}),
+  ...(region?.trim() ? { region } : {}),
+});
 
-const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, onBack }) => {
-  const [dropState, setDropState] = useState<DropState | null>(null);
+const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, config, viewerId, onBack }) => {
+  const [dropState, setDropState] = useState<ViewerDropState | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   
   // Interaction State
-  const [viewerId] = useState(getViewerId());
   const [isProcessing, setIsProcessing] = useState(false);
   const [queuePosition, setQueuePosition] = useState<number | null>(null);
   const [lockExpiresAt, setLockExpiresAt] = useState<number | null>(null);
   const [timeLeft, setTimeLeft] = useState<number>(0);
+  const [walletBalance, setWalletBalance] = useState<Money | null>(null);
+  const [purchasedPrice, setPurchasedPrice] = useState<Money | null>(null);
+  const [order, setOrder] = useState<Order | null>(null);
+  const [address, setAddress] = useState<ShippingAddress>(loadSavedAddress);
 
-  const pollIntervalRef = useRef<number | null>(null);
+  // One idempotency key per intent: double-clicks and retries reuse it until the server answers
+  const viewKey = useRef<string | null>(null);
+  const buyKey = useRef<string | null>(null);
 
-  // Load initial state
+  // Load initial state, then follow live updates pushed by the server.
+  // Both are sent as this viewer may see them, so reload when the viewer changes.
   useEffect(() => {
+    getStatus(product.id)
+        .then(setDropState)
+        .catch(() => setError("Failed to load product."));
+
+    return subscribeToDrop(product.id, (message) => {
+        setDropState(message.state);
+    });
+  }, [product.id, viewerId]);
+
+  const refreshWallet = async () => {
+    if (!config) return;
     try {
-        const state = getStatus(product.id);
-        setDropState(state);
-    } catch (e) {
-        setError("Failed to load product.");
+      const wallet = await getWallet();
+      const balance = wallet.balances.find(b => b.currency === config.currency);
+      setWalletBalance(balance ? balance.available : ZERO);
+    } catch {
+      setWalletBalance(null);
     }
-    return () => {
-        if (pollIntervalRef.current) window.clearInterval(pollIntervalRef.current);
-    };
-  }, [product.id]);
+  };
+
+  useEffect(() => {
+    refreshWallet();
+  }, [viewerId, product.id, config?.currency]);
+
+  // Derive our own lock/queue status from the latest drop state
+  useEffect(() => {
+      if (!dropState || !config) return;
+
+      if (dropState.phase === 'SOLD' || dropState.phase === 'ENDED') {
+          setQueuePosition(null);
+          setLockExpiresAt(null);
+          // Refunds for an unsold drop land in the wallet when it ends
+          if (dropState.phase === 'ENDED') refreshWallet();
+          return;
+      }
+
+      const expiresAt = dropState.activeViewExpiresAt;
+      if (dropState.activeViewerId === viewerId && expiresAt && expiresAt > Date.now()) {
+          setLockExpiresAt(expiresAt);
+          setQueuePosition(null);
+          return;
+      }
+
+      setLockExpiresAt(null);
+      setQueuePosition(dropState.queuePosition > 0 ? dropState.queuePosition : null);
+  }, [dropState, viewerId]);
 
   // Timer Countdown Logic
   useEffect(() => {
@@ -72,31 +135,22 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, onBack }
               // Timer expired locally
               setLockExpiresAt(null);
               // Refresh state to ensure server sync
-              const state = getStatus(product.id);
-              setDropState(state);
+              getStatus(product.id)
+                  .then(setDropState)
+                  .catch(() => setError("Failed to refresh product."));
           }
       }, 1000);
 
       return () => clearInterval(interval);
   }, [lockExpiresAt, product.id]);
 
-  // Queue Polling Logic
+  // Claim the lock the moment the server offers it to us
   useEffect(() => {
-      if (queuePosition !== null) {
-          pollIntervalRef.current = window.setInterval(() => {
-             // Attempt to claim the lock again
-             handleUnlockAttempt(true);
-          }, 2000);
-      } else {
-          if (pollIntervalRef.current) {
-              window.clearInterval(pollIntervalRef.current);
-              pollIntervalRef.current = null;
-          }
-      }
-      return () => {
-           if (pollIntervalRef.current) window.clearInterval(pollIntervalRef.current);
+      if (!dropState || dropState.phase !== 'LIVE' || queuePosition === null) return;
+      if (dropState.claimViewerId === viewerId) {
+          handleUnlockAttempt(true);
       }
-  }, [queuePosition]);
+  }, [dropState, queuePosition]);
 
   // Auto-close modal if lock is lost (timer expires)
   useEffect(() => {
@@ -105,14 +159,15 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, onBack }
     }
   }, [lockExpiresAt, showConfirmModal]);
 
-  const config = productsConfig[product.id];
-
-  const handleUnlockAttempt = (isPolling = false) => {
+  const handleUnlockAttempt = async (isPolling = false) => {
       if (!isPolling) setIsProcessing(true);
       setError(null);
 
+      if (!viewKey.current) viewKey.current = crypto.randomUUID();
+
       try {
-          const result = postView(product.id, viewerId);
+          const result = await postView(product.id, viewKey.current);
+          viewKey.current = null;
           setDropState(result.state);
 
           if (result.status === 'LOCKED') {
@@ -126,7 +181,18 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, onBack }
           } else if (result.status === 'SOLD') {
               setQueuePosition(null);
               setLockExpiresAt(null);
+          } else if (result.status === 'ENDED') {
+              setQueuePosition(null);
+              setLockExpiresAt(null);
+              setError("This drop has ended.");
+          } else if (result.status === 'NOT_STARTED' || result.status === 'PAUSED') {
+              setError(result.error || "This drop isn't live right now.");
+          } else if (result.status === 'QUEUE_FULL') {
+              setError(result.error || "The queue is full. Please try again shortly.");
+          } else if (result.status === 'INSUFFICIENT_FUNDS') {
+              setError(`Insufficient funds. Add money to your wallet to pay the ${viewingFee} viewing fee.`);
           }
+          if (result.feeCharged > 0) refreshWallet();
       } catch (err: any) {
           setError(err.message);
       } finally {
@@ -134,9 +200,9 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, onBack }
       }
   };
 
-  const handleCancel = () => {
+  const handleCancel = async () => {
       try {
-          const newState = postCancel(product.id, viewerId);
+          const newState = await postCancel(product.id);
           setDropState(newState);
           setLockExpiresAt(null);
           setQueuePosition(null);
@@ -145,19 +211,55 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, onBack }
       }
   };
 
-  const handleBuy = () => {
+  const handleBuy = async () => {
     if (!dropState || !config) return;
     setIsProcessing(true);
+    if (!buyKey.current) buyKey.current = crypto.randomUUID();
     
-    const result = postBuy(product.id, viewerId);
-    
-    if (result.success) {
-      setDropState(result.state);
-      setLockExpiresAt(null);
-    } else {
-      setError(result.error || "Purchase failed");
+    const shippingAddress = toShippingAddress(address);
+    localStorage.setItem(ADDRESS_KEY, JSON.stringify(shippingAddress));
+
+    try {
+      const result = await postBuy(product.id, shippingAddress, buyKey.current);
+      buyKey.current = null;
+
+      if (result.success) {
+        setDropState(result.state);
+        setLockExpiresAt(null);
+        setPurchasedPrice(result.soldPrice);
+        setOrder(result.order || null);
+        refreshWallet();
+      } else if (result.status === 'INSUFFICIENT_FUNDS') {
+        // The purchase was rolled back: our lock (if any time was left) is restored
+        setDropState(result.state);
+        setError(`Insufficient funds. Add money to your wallet to buy at ${currentPrice}.`);
+      } else {
+        setError(result.error || "Purchase failed");
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleTopUp = async () => {
+    if (!config) return;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const result = await postTopUp(fromMajor(TOP_UP_AMOUNT), config.currency, FAKE_APPROVE_TOKEN);
+      if (result.success) {
+        setWalletBalance(result.balance.available);
+      } else {
+        setError(result.message || "Top-up declined.");
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsProcessing(false);
     }
-    setIsProcessing(false);
   };
 
   if (!dropState || !config) {
@@ -165,9 +267,24 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, onBack }
   }
 
   const isSold = dropState.isSold;
+  const quantity = config.quantity ?? 1;
+  const unitsSold = dropState.unitsSold;
+  const isEnded = dropState.phase === 'ENDED';
+  const isClosed = isSold || isEnded;
+  const isScheduled = dropState.phase === 'SCHEDULED';
+  const isPaused = dropState.phase === 'PAUSED';
+  // Viewing and buying only happen while the drop is live
+  const isLive = !isClosed && !isScheduled && !isPaused;
   const isLockedByMe = lockExpiresAt !== null && timeLeft > 0;
   const isQueued = queuePosition !== null;
-  const currentPrice = dropState.currentPrice.toFixed(2);
+  // Someone else is paying for a held unit; it comes back if their payment fails
+  const isHeldForOther = dropState.isUnitHeld && !dropState.pendingPurchase;
+  const viewingFee = formatMajor(config.viewingFee, config.currency);
+  // Same shape as a real price in the user's locale, with the digits masked
+  const hiddenPrice = formatMajor(8888.88, config.currency).replace(/\d/g, '?');
+  // The server only sends the live price to the lock holder; a closed drop shows its last sale
+  const shownPrice = dropState.currentPrice ?? dropState.soldPrice;
+  const currentPrice = shownPrice !== undefined ? formatMoney(shownPrice, dropState.currency) : hiddenPrice;
 
   return (
     <div className="w-full min-h-screen bg-charcoal text-offwhite pt-24 pb-12">
@@ -199,15 +316,42 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, onBack }
               {isSold && (
                 <div className="absolute inset-0 bg-charcoal/80 backdrop-blur-sm flex flex-col items-center justify-center border border-softgold/20">
                     <CheckCircle size={64} className="text-softgold mb-4" />
-                    <span className="font-serif text-4xl text-softgold">SOLD</span>
-                    <span className="font-sans text-sm tracking-widest mt-2">FOR ${dropState.soldPrice?.toFixed(2)}</span>
+                    <span className="font-serif text-4xl text-softgold">{quantity > 1 ? 'SOLD OUT' : 'SOLD'}</span>
+                    <span className="font-sans text-sm tracking-widest mt-2">
+                      {quantity > 1
+                        ? `ALL ${quantity} UNITS`
+                        : <>FOR {dropState.soldPrice !== undefined && formatMoney(dropState.soldPrice, dropState.currency)}</>}
+                    </span>
+                </div>
+              )}
+              {isEnded && (
+                <div className="absolute inset-0 bg-charcoal/80 backdrop-blur-sm flex flex-col items-center justify-center border border-offwhite/10">
+                    <Ban size={64} className="text-offwhite/60 mb-4" />
+                    <span className="font-serif text-4xl text-offwhite/80">ENDED</span>
+                    <span className="font-sans text-sm tracking-widest mt-2 text-offwhite/50">
+                      {dropState.endReason === 'CANCELLED' ? 'CANCELLED' : 'CLOSED'} {unitsSold > 0 ? `AFTER ${unitsSold} OF ${quantity} SOLD` : 'WITHOUT A SALE'}
+                    </span>
                 </div>
               )}
             </div>
             
             <div className="mt-8 flex justify-between text-xs font-sans tracking-widest text-offwhite/30 border-t border-offwhite/5 pt-6">
                <span>ID: {product.id.toUpperCase()}</span>
-               <span>{config.viewingFee > 0 ? `$${config.viewingFee} TO UNLOCK` : 'FREE VIEW'}</span>
+               {quantity > 1 && <span>{dropState.unitsRemaining} OF {quantity} LEFT</span>}
+               <span>{config.viewingFee > 0 ? `${viewingFee} TO UNLOCK` : 'FREE VIEW'}</span>
+            </div>
+
+            <div className="mt-4 flex justify-between items-center text-xs font-sans tracking-widest text-offwhite/50">
+               <span className="flex items-center gap-2">
+                 <Wallet size={14} /> WALLET: {walletBalance !== null ? formatMoney(walletBalance, config.currency) : '—'}
+               </span>
+               <button
+                 onClick={handleTopUp}
+                 disabled={isProcessing}
+                 className="text-softgold hover:text-offwhite transition-colors disabled:opacity-50"
+               >
+                 + ADD {formatMajor(TOP_UP_AMOUNT, config.currency)}
+               </button>
             </div>
           </motion.div>
 
@@ -251,18 +395,18 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, onBack }
                         animate={{ opacity: 1, filter: 'blur(0px)' }}
                         className="font-serif text-5xl md:text-6xl text-softgold"
                     >
-                      ${currentPrice}
+                      {currentPrice}
                     </motion.div>
                   ) : (
                     <div className="font-serif text-4xl text-offwhite/20 filter blur-sm select-none">
-                      $????.??
+                      {hiddenPrice}
                     </div>
                   )}
                 </div>
                 <div className="text-right">
                   <div className="text-xs font-sans font-bold tracking-widest text-offwhite/40 mb-1">ORIGINAL</div>
                   <div className="font-sans text-xl text-offwhite/60 line-through decoration-offwhite/30">
-                    ${config.basePrice.toFixed(2)}
+                    {formatMajor(config.basePrice, config.currency)}
                   </div>
                 </div>
               </div>
@@ -271,7 +415,7 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, onBack }
               <div className="space-y-4">
                 
                 {/* 1. Initial State: Not Sold, Not Locked, Not Queued */}
-                {!isSold && !isLockedByMe && !isQueued && (
+                {isLive && !isLockedByMe && !isQueued && (
                   <button 
                     onClick={() => handleUnlockAttempt(false)}
                     disabled={isProcessing}
@@ -280,24 +424,51 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, onBack }
                      {isProcessing ? (
                          'PROCESSING...'
                      ) : (
-                         <><Eye size={16} /> PAY ${config.viewingFee} TO REVEAL</>
+                         <><Eye size={16} /> PAY {viewingFee} TO REVEAL</>
                      )}
                   </button>
                 )}
 
+                {/* 1b. Scheduled / Paused States */}
+                {isScheduled && (
+                  <div className="w-full bg-charcoal/50 border border-offwhite/10 py-4 px-4 rounded-lg flex flex-col items-center justify-center gap-2">
+                    <div className="flex items-center gap-2 text-softgold">
+                      <CalendarClock size={16} />
+                      <span className="font-sans font-bold text-sm tracking-widest">
+                        STARTS IN {config.startsAt ? <Countdown target={config.startsAt} /> : '—'}
+                      </span>
+                    </div>
+                    <span className="text-xs text-offwhite/40 font-sans">The price unlocks when the drop goes live.</span>
+                  </div>
+                )}
+
+                {isPaused && (
+                  <div className="w-full bg-charcoal/50 border border-offwhite/10 py-4 px-4 rounded-lg flex flex-col items-center justify-center gap-2">
+                    <div className="flex items-center gap-2 text-offwhite/70">
+                      <Pause size={16} />
+                      <span className="font-sans font-bold text-sm tracking-widest">DROP PAUSED</span>
+                    </div>
+                    <span className="text-xs text-offwhite/40 font-sans">
+                      {isQueued ? `You keep your place in the queue (#${queuePosition}).` : 'Viewing will reopen shortly.'}
+                    </span>
+                  </div>
+                )}
+
                 {/* 2. Queued State */}
-                {!isSold && isQueued && (
+                {isLive && isQueued && (
                     <div className="w-full bg-charcoal/50 border border-offwhite/10 py-4 px-4 rounded-lg flex flex-col items-center justify-center gap-2">
                         <div className="flex items-center gap-2 text-softgold animate-pulse">
                             <Users size={16} />
                             <span className="font-sans font-bold text-sm tracking-widest">IN QUEUE: #{queuePosition}</span>
                         </div>
-                        <span className="text-xs text-offwhite/40 font-sans">Waiting for other buyers to finish...</span>
+                        <span className="text-xs text-offwhite/40 font-sans">
+                          {isHeldForOther ? 'Another buyer is completing payment...' : 'Waiting for other buyers to finish...'}
+                        </span>
                     </div>
                 )}
 
                 {/* 3. Locked/Active State */}
-                {!isSold && isLockedByMe && (
+                {isLive && isLockedByMe && (
                   <div className="grid grid-cols-2 gap-4">
                     <button 
                       onClick={handleCancel}
@@ -318,7 +489,26 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, onBack }
                 {/* 4. Sold State */}
                 {isSold && (
                   <div className="w-full bg-charcoal border border-softgold/30 text-softgold py-4 font-sans font-bold text-sm tracking-widest flex items-center justify-center gap-2 cursor-default">
-                    <CheckCircle size={16} /> ITEM SOLD
+                    <CheckCircle size={16} /> {quantity > 1 ? 'SOLD OUT' : 'ITEM SOLD'}
+                  </div>
+                )}
+
+                {purchasedPrice !== null && (
+                  <div className="w-full text-center text-xs text-softgold font-sans tracking-widest">
+                    YOU BOUGHT {quantity > 1 ? 'ONE' : 'IT'} FOR {formatMoney(purchasedPrice, dropState.currency)}
+                  </div>
+                )}
+
+                {order && (
+                  <div className="w-full text-center text-[10px] text-offwhite/50 font-sans tracking-widest">
+                    ORDER {order.id.slice(-8).toUpperCase()} · {order.status.replace('_', ' ')} · SHIPPING TO {order.shippingAddress.city.toUpperCase()}
+                  </div>
+                )}
+
+                {/* 5. Ended Unsold State */}
+                {isEnded && (
+                  <div className="w-full bg-charcoal border border-offwhite/20 text-offwhite/60 py-4 font-sans font-bold text-sm tracking-widest flex items-center justify-center gap-2 cursor-default">
+                    <Ban size={16} /> DROP ENDED
                   </div>
                 )}
               </div>
@@ -331,13 +521,13 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, onBack }
             </div>
 
             {/* AI Price Analyst */}
-            {!isSold && (
+            {!isClosed && (
                 <motion.div
                     initial={{ opacity: 0 }}
                     animate={{ opacity: 1 }}
                     transition={{ delay: 0.5 }}
                 >
-                    <AIPriceAnalyst productName={product.name} basePrice={config.basePrice} />
+                    <AIPriceAnalyst productName={product.name} basePrice={config.basePrice} currency={config.currency} />
                 </motion.div>
             )}
 
@@ -351,7 +541,7 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, onBack }
                 >
                     <h4 className="font-serif text-offwhite text-lg mb-4">About this Item</h4>
                     <p className="font-sans text-offwhite/60 text-sm leading-relaxed">
-                        {PRODUCT_DESCRIPTIONS[product.id] || "Details coming soon."}
+                        {product.longDescription || "Details coming soon."}
                     </p>
                 </motion.div>
             )}
@@ -393,8 +583,32 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, onBack }
 
                 <div className="flex justify-between items-center">
                    <span className="font-sans text-xs tracking-widest text-offwhite/40">TOTAL</span>
-                   <span className="font-serif text-4xl text-softgold">${currentPrice}</span>
+                   <span className="font-serif text-4xl text-softgold">{currentPrice}</span>
                 </div>
+
+                <div className="w-full h-[1px] bg-offwhite/10" />
+
+                <form
+                  id="shipping-form"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    setShowConfirmModal(false);
+                    handleBuy();
+                  }}
+                  className="grid grid-cols-2 gap-3"
+                >
+                  <span className="col-span-2 font-sans text-xs tracking-widest text-offwhite/40">SHIP TO</span>
+                  {ADDRESS_FIELDS.map(({ field, label, required }) => (
+                    <input
+                      key={field}
+                      required={required}
+                      placeholder={label}
+                      value={address[field] || ''}
+                      onChange={(e) => setAddress({ ...address, [field]: e.target.value })}
+                      className={`${field === 'name' || field === 'line1' ? 'col-span-2' : ''} bg-charcoal/50 border border-offwhite/20 rounded-sm px-3 py-2 text-sm text-offwhite placeholder-offwhite/30 focus:outline-none focus:border-softgold font-sans`}
+                    />
+                  ))}
+                </form>
               </div>
 
               <div className="flex gap-4">
@@ -405,10 +619,8 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product, onBack }
                   CANCEL
                 </button>
                 <button
-                  onClick={() => {
-                    setShowConfirmModal(false);
-                    handleBuy();
-                  }}
+                  type="submit"
+                  form="shipping-form"
                   className="flex-[2] bg-softgold text-charcoal py-4 font-sans text-xs font-bold tracking-widest hover:bg-white transition-colors rounded-sm"
                 >
                   CONFIRM PAYMENT
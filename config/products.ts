@@ -1,39 +1,38 @@
+import rawCatalogue from './products.json';
 import { DropConfig } from '../services/pricingEngine';
+import { loadCatalogue } from '../services/dropConfigValidator';
+import { CatalogueEntry, Product } from '../types';
 
-export const products: Record<string, DropConfig> = {
-  "iphone17": {
-    "productId": "iphone17",
-    "name": "iPhone 17 256GB SIM",
-    "basePrice": 1100,
-    "viewingFee": 5,
-    "priceDropShare": 0.80,
-    "platformShare": 0.20,
-    "supplierShareOfPlatform": 0.25,
-    "qomoShareOfPlatform": 0.75,
-    "minPrice": 1
-  },
-  "ps5slim": {
-    "productId": "ps5slim",
-    "name": "PlayStation 5 Slim 1TB",
-    "basePrice": 485,
-    "viewingFee": 5,
-    "priceDropShare": 0.80,
-    "platformShare": 0.20,
-    "supplierShareOfPlatform": 0.25,
-    "qomoShareOfPlatform": 0.75,
-    "minPrice": 1
-  },
-  "macbookairm4": {
-    "productId": "macbookairm4",
-    "name": "MacBook Air M4",
-    "basePrice": 900,
-    "viewingFee": 5,
-    "priceDropShare": 0.80,
-    "platformShare": 0.20,
-    "supplierShareOfPlatform": 0.25,
-    "qomoShareOfPlatform": 0.75,
-    "minPrice": 1
-  }
-};
+/**
+ * The product catalogue. config/products.json is the single source of truth
+ * for both the pricing engine and the storefront; it is validated on load.
+ */
+export const catalogue: CatalogueEntry[] = loadCatalogue(rawCatalogue);
 
-export default products;
\ No newline at end of file
+/**
+ * Engine view of a catalogue entry (display fields stripped).
+ */
+export const toDropConfig = ({ display, ...config }: CatalogueEntry): DropConfig => config;
+
+/**
+ * Storefront view of a catalogue entry.
+ */
+export const toProduct = (entry: CatalogueEntry): Product => ({
+  id: entry.productId,
+  name: entry.name,
+  description: entry.display.description,
+  longDescription: entry.display.longDescription,
+  placeholderUrl: entry.display.placeholderUrl,
+  generatedImage: entry.display.imageUrl,
+  basePrice: entry.basePrice,
+  priceHidden: true,
+  quantity: entry.quantity ?? 1,
+  startsAt: entry.startsAt,
+  endsAt: entry.endsAt,
+});
+
+export const products: Record<string, DropConfig> = Object.fromEntries(
+  catalogue.map((entry) => [entry.productId, toDropConfig(entry)])
+);
+
+export default products;
@@ -0,0 +1,123 @@
+/**
+ * Writes a drop store with simulated history for the analytics dashboard.
+ *
+ *   npm run seed:fixtures -- [path/to/store.json] [--force]
+ *
+ * Every catalogue drop gets a few days of views, queueing, released and
+ * expired locks and purchases on a simulated clock, driven by a seeded random
+ * generator so the same file comes out every run. Schedules are dropped so
+ * each drop is live from the start of the simulation. Defaults to
+ * data/fixtures.json; serve it with QOMO_DATA_FILE=data/fixtures.json npm run server.
+ */
+import fs from 'fs';
+import path from 'path';
+import {
+  DropConfig,
+  DropEvent,
+  initDrop,
+  applyView,
+  applyPurchase,
+  releaseLock,
+  sweepDrop,
+  replayDrop,
+} from '../services/pricingEngine';
+import { createFileDropRepository } from '../services/fileDropRepository';
+import { analyzeDrop, summarizeAnalytics } from '../services/analytics';
+import { formatMoney, toMajor } from '../services/money';
+import { catalogue, toDropConfig } from '../config/products';
+
+const args = process.argv.slice(2);
+const filePath = path.resolve(args.find(arg => !arg.startsWith('--')) || path.join('data', 'fixtures.json'));
+const force = args.includes('--force');
+
+const SEED = 20261019;
+const VIEWERS = 40;
+const MAX_STEPS = 600;
+const HISTORY_MS = 3 * 24 * 60 * 60 * 1000;
+
+// mulberry32: small deterministic PRNG
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Plays one drop forward from `startAt`. A lock holder rarely buys until the
+ * price is 10% off, then more eagerly as the discount grows; otherwise they
+ * cancel or let the lock run out. Offered locks are usually claimed.
+ */
+const simulateDrop = (config: DropConfig, startAt: number, random: () => number): DropEvent[] => {
+  let state = initDrop(config);
+  let now = startAt;
+  const events: DropEvent[] = [];
+  const apply = (result: { state: typeof state; events: DropEvent[] }) => {
+    state = result.state;
+    events.push(...result.events);
+  };
+  const basePrice = toMajor(state.currentPrice);
+
+  for (let step = 0; step < MAX_STEPS && !state.isSold; step++) {
+    // Bursts of visitors seconds apart, with quiet spells of up to two hours
+    now += Math.floor(random() < 0.1 ? random() * 7_200_000 : 2_000 + random() * 40_000);
+    apply(sweepDrop(state, config, now, random));
+
+    const viewerId = state.claimViewerId && random() < 0.7
+      ? state.claimViewerId
+      : `viewer_${1 + Math.floor(random() * VIEWERS)}`;
+    const view = applyView(state, config, viewerId, {}, now);
+    apply(view);
+    if (view.status !== 'LOCKED' || view.feeCharged === 0) continue;
+
+    const discount = 1 - toMajor(state.currentPrice) / basePrice;
+    const roll = random();
+    if (roll < 0.002 + Math.max(0, discount - 0.1) * 1.5) {
+      now += Math.floor(random() * 10_000);
+      apply(applyPurchase(state, config, viewerId, now));
+      apply(sweepDrop(state, config, now, random));
+    } else if (roll < 0.6) {
+      now += Math.floor(random() * 10_000);
+      apply(releaseLock(state, viewerId, now));
+      apply(sweepDrop(state, config, now, random));
+    }
+    // otherwise the lock is left to expire
+  }
+
+  return events;
+};
+
+const main = () => {
+  if (fs.existsSync(filePath) && !force) {
+    console.error(`${filePath} already exists; pass --force to overwrite it.`);
+    process.exit(1);
+  }
+  fs.rmSync(filePath, { force: true });
+
+  const repository = createFileDropRepository(filePath);
+  const random = createRandom(SEED);
+  const startAt = Date.now() - HISTORY_MS;
+
+  catalogue.forEach((entry) => {
+    const { startsAt, endsAt, ...config } = toDropConfig(entry);
+    const events = simulateDrop(config, startAt, random);
+
+    repository.upsertConfig(config, entry.display);
+    repository.save(config.productId, replayDrop(config, events), events, 0);
+  });
+
+  const drops = repository.listProductIds().map(productId => analyzeDrop({
+    config: repository.getConfig(productId)!,
+    state: repository.getState(productId)!,
+    events: repository.getEvents(productId)!,
+  }));
+  const summary = summarizeAnalytics(drops);
+
+  console.log(`Wrote ${filePath}`);
+  drops.forEach((drop) => {
+    console.log(`- ${drop.name}: ${drop.views} views, ${drop.unitsSold}/${drop.quantity} sold, fees ${formatMoney(drop.feeRevenue, drop.currency)}, discount given ${formatMoney(drop.discountGiven, drop.currency)}`);
+  });
+  console.log(`Total: ${summary.views} views, ${summary.unitsSold} units sold`);
+};
+
+main();
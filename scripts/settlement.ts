@@ -0,0 +1,85 @@
+/**
+ * Supplier settlement report from the drop store.
+ *
+ *   npm run settlement -- --from 2026-10-01 --to 2026-11-01 [--format csv|json] [--out report.csv]
+ *
+ * Reads QOMO_DATA_FILE (default data/drops.json), prints one statement per
+ * supplier and currency for [from, to), and checks the all-time event logs
+ * against each drop's revenue totals. Exits with status 1 if they disagree.
+ */
+import fs from 'fs';
+import path from 'path';
+import { createFileDropRepository } from '../services/fileDropRepository';
+import {
+  SettlementDrop,
+  generateStatements,
+  reconcileSettlement,
+  statementsToCsv,
+  statementsToJson,
+} from '../services/settlement';
+import { formatMoney } from '../services/money';
+import productsData from '../config/products';
+
+const DATA_FILE = process.env.QOMO_DATA_FILE || path.resolve('data', 'drops.json');
+const FORMATS = ['csv', 'json'];
+
+const readArg = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const parseDate = (name: string, fallback: number): number => {
+  const value = readArg(name);
+  if (value === undefined) return fallback;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? fail(`--${name}: not a date: ${value}`) : ms;
+};
+
+const from = parseDate('from', 0);
+const to = parseDate('to', Date.now());
+const format = readArg('format') || 'csv';
+const out = readArg('out');
+
+if (from >= to) fail('--from must be before --to');
+if (!FORMATS.includes(format)) fail(`--format must be one of ${FORMATS.join(', ')}`);
+if (!fs.existsSync(DATA_FILE)) fail(`No drop store at ${DATA_FILE}`);
+
+const catalogue: Record<string, { supplierId?: string }> = productsData;
+// Read-only, so a report can run while the server holds the store
+const repository = createFileDropRepository(DATA_FILE, { readOnly: true });
+
+const drops: SettlementDrop[] = repository.listProductIds().map((productId) => {
+  const config = repository.getConfig(productId);
+  // Drops stored before configs carried a supplier fall back to the catalogue
+  const supplierId = config.supplierId || catalogue[productId]?.supplierId || 'UNASSIGNED';
+  return {
+    config: { ...config, supplierId },
+    state: repository.getState(productId),
+    events: repository.getEvents(productId),
+  };
+});
+
+const statements = generateStatements(drops, { from, to });
+const report = format === 'json' ? statementsToJson(statements) : statementsToCsv(statements);
+
+if (out) {
+  fs.writeFileSync(path.resolve(out), report);
+  console.log(`Wrote ${statements.length} statement(s) to ${out}`);
+} else {
+  process.stdout.write(report);
+}
+
+const reconciliation = reconcileSettlement(drops);
+if (!reconciliation.reconciled) {
+  console.error(`Settlement does not reconcile with ${DATA_FILE}:`);
+  reconciliation.mismatches.forEach(({ productId, field, expected, actual }) => {
+    const { currency } = repository.getConfig(productId);
+    console.error(`- ${productId} ${field}: state ${formatMoney(expected, currency)}, events ${formatMoney(actual, currency)}`);
+  });
+  process.exit(1);
+}
@@ -1,4 +1,6 @@
-import { initDrop, applyView, applyPurchase, DropConfig } from '../services/pricingEngine';
+import { initDrop, applyView, applyPurchase, releaseLock, replayDrop, DropConfig, DropEvent, DropState } from '../services/pricingEngine';
+import { PriceCurve } from '../services/priceCurves';
+import { Money, formatMoney, formatMajor } from '../services/money';
 import productsData from '../config/products';
 
 // In a real Node environment, we would run this file directly.
@@ -9,43 +11,56 @@ export const runSimulation = () => {
   console.log("STARTING QOMO PRICING SIMULATION");
   console.log("------------------------------------------------");
 
-  const products = Object.values(productsData) as DropConfig[];
+  const products = Object.values(productsData);
 
   products.forEach((config) => {
     console.log(`\n>>> SIMULATING PRODUCT: ${config.name} (${config.productId})`);
-    console.log(`BASE PRICE: $${config.basePrice}`);
+    console.log(`BASE PRICE: ${formatMajor(config.basePrice, config.currency)}`);
 
     // 1. Initialize
     let state = initDrop(config);
+    const events: DropEvent[] = [];
 
     // 2. Simulate 10 Views
     console.log("... Simulating 10 Views ...");
     for (let i = 1; i <= 10; i++) {
       const result = applyView(state, config, `viewer_${i}`);
       state = result.state;
+      events.push(...result.events);
     }
 
     // 3. Log Post-View Metrics
     console.log(`STATUS AFTER 10 VIEWS:`);
-    console.log(`- Final Price: $${state.currentPrice}`);
+    console.log(`- Final Price: ${formatMoney(state.currentPrice, config.currency)}`);
     console.log(`- Total Views: ${state.totalViews}`);
-    console.log(`- Total Platform Revenue: $${state.totalPlatformRevenue}`);
-    console.log(`- Supplier Share of Platform: $${state.totalSupplierPlatformRevenue}`);
-    console.log(`- Qomo Share of Platform: $${state.totalQomoRevenue}`);
+    console.log(`- Total Platform Revenue: ${formatMoney(state.totalPlatformRevenue, config.currency)}`);
+    console.log(`- Supplier Share of Platform: ${formatMoney(state.totalSupplierPlatformRevenue, config.currency)}`);
+    console.log(`- Qomo Share of Platform: ${formatMoney(state.totalQomoRevenue, config.currency)}`);
 
     // 4. Simulate Purchase
     console.log("... Simulating Purchase ...");
-    const purchaseResult = applyPurchase(state, config, "buyer_WINNER");
+    // Only the lock holder can buy; the first viewer still holds it
+    const purchaseResult = applyPurchase(state, config, "viewer_1");
     state = purchaseResult.state;
+    events.push(...purchaseResult.events);
 
     if (purchaseResult.success) {
       console.log(`PURCHASE SUCCESSFUL:`);
-      console.log(`- Buyer Paid: $${purchaseResult.soldPrice}`);
-      console.log(`- Total Supplier Revenue (Price + Fee Share): $${purchaseResult.totalSupplierRevenue}`);
-      console.log(`- Total Qomo Revenue (Fee Share): $${purchaseResult.totalQomoRevenue}`);
+      console.log(`- Buyer Paid: ${formatMoney(purchaseResult.soldPrice, config.currency)}`);
+      console.log(`- Total Supplier Revenue (Price + Fee Share): ${formatMoney(purchaseResult.totalSupplierRevenue, config.currency)}`);
+      console.log(`- Total Qomo Revenue (Fee Share): ${formatMoney(purchaseResult.totalQomoRevenue, config.currency)}`);
     } else {
       console.error("Purchase failed:", purchaseResult.error);
     }
+
+    // 5. Replay the event log and confirm it reproduces the live state
+    const replayed = replayDrop(config, events);
+    const replayMatches =
+      replayed.currentPrice === state.currentPrice &&
+      replayed.totalPlatformRevenue === state.totalPlatformRevenue &&
+      replayed.totalSupplierPlatformRevenue === state.totalSupplierPlatformRevenue &&
+      replayed.totalQomoRevenue === state.totalQomoRevenue;
+    console.log(`LEDGER REPLAY (${events.length} events): ${replayMatches ? 'MATCHES' : 'MISMATCH'}`);
   });
 
   console.log("\n------------------------------------------------");
@@ -53,5 +68,57 @@ export const runSimulation = () => {
   console.log("------------------------------------------------");
 };
 
+/**
+ * Runs `count` back-to-back views, each viewer releasing the lock before the next arrives.
+ * Returns the price after every view.
+ */
+const simulateViews = (config: DropConfig, count: number): { state: DropState; prices: Money[] } => {
+  let state = initDrop(config);
+  const prices: Money[] = [];
+
+  for (let i = 1; i <= count; i++) {
+    const viewerId = `viewer_${i}`;
+    state = applyView(state, config, viewerId).state;
+    prices.push(state.currentPrice);
+    state = releaseLock(state, viewerId).state;
+  }
+  return { state, prices };
+};
+
+/**
+ * Runs the same drop under each price curve and prints the price paths side-by-side.
+ */
+export const runCurveComparison = (productId: string = 'ps5slim', views: number = 50) => {
+  const config = productsData[productId];
+  if (!config) throw new Error(`Product ${productId} not found`);
+
+  const curves: PriceCurve[] = [
+    { type: 'LINEAR' },
+    { type: 'EXPONENTIAL', rate: 0.01 },
+    { type: 'STEP', steps: [{ fromView: 1, dropAmount: 10 }, { fromView: 20, dropAmount: 5 }, { fromView: 40, dropAmount: 2 }] },
+    { type: 'DYNAMIC', reservePrice: Math.round(config.basePrice * 0.6) },
+  ];
+
+  console.log("------------------------------------------------");
+  console.log(`PRICE CURVE COMPARISON: ${config.name} (${views} views)`);
+  console.log("------------------------------------------------");
+
+  const runs = curves.map((curve) => ({ curve, ...simulateViews({ ...config, priceCurve: curve }, views) }));
+
+  console.log(['VIEW', ...runs.map(r => r.curve.type)].map(c => c.padStart(12)).join(''));
+  for (let i = 0; i < views; i += Math.max(1, Math.floor(views / 10))) {
+    console.log([String(i + 1), ...runs.map(r => formatMoney(r.prices[i], config.currency))].map(c => c.padStart(12)).join(''));
+  }
+
+  console.log("\nTOTALS (platform revenue is identical for every curve):");
+  runs.forEach(({ curve, state }) => {
+    console.log(
+      `- ${curve.type.padEnd(12)} final ${formatMoney(state.currentPrice, config.currency)} | ` +
+      `platform ${formatMoney(state.totalPlatformRevenue, config.currency)} = supplier ${formatMoney(state.totalSupplierPlatformRevenue, config.currency)} + qomo ${formatMoney(state.totalQomoRevenue, config.currency)}`
+    );
+  });
+};
+
 // Auto-run if enabled in environment (optional)
-// runSimulation();
\ No newline at end of file
+// runSimulation();
+// runCurveComparison();
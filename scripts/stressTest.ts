@@ -0,0 +1,211 @@
+/**
+ * Stress test for concurrent writes to a drop.
+ *
+ *   npm run stress -- [views]
+ *
+ * Fires `views` (default 5000) view + cancel rounds through services/api.ts while a
+ * rival writer keeps slipping its own views in between our reads and writes, the
+ * way a second server process would. Compare-and-swap saves must turn every race
+ * into a retry or a VERSION_CONFLICT, never a lost price drop or a fee charged twice.
+ * Also checks the refund ledger of a multi-unit drop that ends after a partial sale,
+ * and that a reset keeps the event log.
+ * Exits with status 1 if any invariant fails.
+ */
+import {
+  DropConfig,
+  DropEvent,
+  DropState,
+  ViewChargedEvent,
+  applyView,
+  applyPurchase,
+  applyReset,
+  endDrop,
+  initDrop,
+  releaseLock,
+  replayDrop,
+} from '../services/pricingEngine';
+import { DropRepository, createInMemoryDropRepository } from '../services/dropRepository';
+import { ApiError } from '../services/apiErrors';
+import {
+  setRepository,
+  setWalletService,
+  postView,
+  postCancel,
+  postTopUp,
+  getDropState,
+  getEvents,
+  getWallet,
+} from '../services/api';
+import { createWalletService, createInMemoryWalletStore } from '../services/wallet';
+import { createFakePaymentProvider, FAKE_APPROVE_TOKEN } from '../services/paymentProvider';
+import { Money, fromMajor, multiplyMoney, addMoney, ZERO, formatMoney } from '../services/money';
+import productsData from '../config/products';
+
+const VIEWS = Number(process.argv[2] || 5000);
+const VIEWERS = 50;
+const RIVAL_WRITE_RATE = 0.3;   // chance a rival write lands between our read and our save
+const RIVAL_ID = 'rival_server';
+
+const config: DropConfig = {
+  ...productsData.ps5slim,
+  productId: 'stress',
+  name: 'Stress Drop',
+  basePrice: 1_000_000,
+};
+
+/**
+ * Wraps a repository so that, before some saves, another writer commits a full
+ * view + release on the same drop. The wrapped save then races against it.
+ */
+const createInterleavingRepository = (inner: DropRepository) => {
+  let rivalViews = 0;
+
+  const repository: DropRepository = {
+    ...inner,
+    save: (productId, state, events, expectedVersion) => {
+      const current = inner.getState(productId);
+      const lockFree = current && !current.isSold && current.activeViewerId === null;
+
+      if (lockFree && productId === config.productId && Math.random() < RIVAL_WRITE_RATE) {
+        const view = applyView(current, config, RIVAL_ID);
+        const release = releaseLock(view.state, RIVAL_ID);
+        inner.save(productId, release.state, [...view.events, ...release.events], current.version);
+        if (view.status === 'LOCKED') rivalViews++;
+      }
+
+      inner.save(productId, state, events, expectedVersion);
+    },
+  };
+
+  return { repository, rivalViews: () => rivalViews };
+};
+
+/**
+ * Ends a two-unit FULL-refund drop after one sale: the buyer's fees paid for
+ * their unit and stay booked; only the viewer who didn't buy is refunded.
+ */
+// Engine calls whose events are collected into `log`, as the API would record them
+const recordSteps = () => {
+  const log: DropEvent[] = [];
+  const step = <T extends { state: DropState; events: DropEvent[] }>(result: T): T => {
+    log.push(...result.events);
+    return result;
+  };
+  return { log, step };
+};
+
+const checkPartialSaleEnd = (): [string, boolean][] => {
+  const partial: DropConfig = { ...config, productId: 'partial', quantity: 2, refundPolicy: 'FULL' };
+  const { log, step } = recordSteps();
+
+  let state = initDrop(partial);
+  state = step(applyView(state, partial, 'buyer')).state;
+  state = step(applyPurchase(state, partial, 'buyer')).state;
+  state = step(applyView(state, partial, 'browser')).state;
+  state = step(releaseLock(state, 'browser')).state;
+  const ended = endDrop(state, partial, log, 'CANCELLED');
+
+  const fees = log.filter((e): e is ViewChargedEvent => e.type === 'VIEW_CHARGED');
+  const buyerFee = fees.find(e => e.viewerId === 'buyer')!;
+  const browserFee = fees.find(e => e.viewerId === 'browser')!;
+
+  return [
+    ['partial sale end: buyer is not refunded', ended.ended && ended.refunds.every(r => r.viewerId !== 'buyer')],
+    ['partial sale end: non-buyer gets their fee back', ended.refunds.length === 1 && ended.refunds[0].amount === browserFee.fee],
+    ['partial sale end: buyer\'s fee revenue stays booked',
+      ended.state.totalSupplierPlatformRevenue === buyerFee.supplierShare && ended.state.totalQomoRevenue === buyerFee.qomoShare],
+  ];
+};
+
+const checkResetKeepsLog = (): [string, boolean][] => {
+  const reset: DropConfig = { ...config, productId: 'reset', refundPolicy: 'FULL' };
+  const { log, step } = recordSteps();
+
+  let state = initDrop(reset);
+  state = step(applyView(state, reset, 'early')).state;
+  state = step(applyReset(state, reset)).state;
+  state = step(applyView(state, reset, 'late')).state;
+  state = step(releaseLock(state, 'late')).state;
+  const ended = endDrop(state, reset, log, 'CANCELLED');
+
+  return [
+    ['reset: earlier events stay in the log', log.some(e => e.type === 'VIEW_CHARGED' && e.viewerId === 'early')],
+    ['reset: event log replays to the live state', JSON.stringify(replayDrop(reset, log)) === JSON.stringify(state)],
+    ['reset: only views since the reset are refunded', ended.refunds.length === 1 && ended.refunds[0].viewerId === 'late'],
+  ];
+};
+
+const isConflict = (err: unknown) => err instanceof ApiError && err.code === 'VERSION_CONFLICT';
+
+const main = async () => {
+  const interleaving = createInterleavingRepository(createInMemoryDropRepository());
+  setRepository(interleaving.repository);
+  interleaving.repository.upsertConfig(config);
+  setWalletService(createWalletService(createInMemoryWalletStore(), createFakePaymentProvider()));
+
+  const fee = fromMajor(config.viewingFee);
+  const viewerIds = Array.from({ length: VIEWERS }, (_, i) => `viewer_${i + 1}`);
+  for (const viewerId of viewerIds) {
+    await postTopUp(viewerId, multiplyMoney(fee, VIEWS), config.currency, FAKE_APPROVE_TOKEN);
+  }
+
+  let chargedViews = 0;
+  let surfacedConflicts = 0;
+
+  for (let i = 0; i < VIEWS; i++) {
+    const viewerId = viewerIds[i % VIEWERS];
+    try {
+      const result = postView(config.productId, viewerId);
+      if (result.status === 'LOCKED' && result.feeCharged > 0) chargedViews++;
+    } catch (err) {
+      if (!isConflict(err)) throw err;
+      surfacedConflicts++;
+    }
+
+    try {
+      postCancel(config.productId, viewerId);
+    } catch (err) {
+      if (!isConflict(err)) throw err;
+      surfacedConflicts++;
+    }
+  }
+
+  const state = getDropState(config.productId);
+  const events = getEvents(config.productId);
+  const charged = events.filter((e): e is ViewChargedEvent => e.type === 'VIEW_CHARGED');
+  const sum = (values: Money[]) => addMoney(ZERO, ...values);
+
+  const walletCaptured = sum(viewerIds.flatMap(viewerId =>
+    getWallet(viewerId).entries
+      .filter(entry => entry.type === 'CAPTURE' && entry.reference === 'VIEW_FEE')
+      .map(entry => entry.amount)
+  ));
+  const walletHeld = sum(viewerIds.flatMap(viewerId => getWallet(viewerId).balances.map(b => b.held)));
+
+  const checks: [string, boolean][] = [
+    ['totalViews = our charged views + rival views', state.totalViews === chargedViews + interleaving.rivalViews()],
+    ['totalViews = VIEW_CHARGED events', state.totalViews === charged.length],
+    ['version = event log length', state.version === events.length],
+    ['platform revenue = sum of fee platform shares', state.totalPlatformRevenue === sum(charged.map(e => e.platformRevenue))],
+    ['platform revenue = supplier + Qomo shares', state.totalPlatformRevenue === addMoney(state.totalSupplierPlatformRevenue, state.totalQomoRevenue)],
+    ['price moved by the sum of drops', fromMajor(config.basePrice) - state.currentPrice === sum(charged.map(e => e.dropAmount))],
+    ['wallets charged once per recorded view', walletCaptured === multiplyMoney(fee, chargedViews)],
+    ['no wallet holds left open', walletHeld === ZERO],
+    ['event log replays to the live state', JSON.stringify(replayDrop(config, events)) === JSON.stringify(state)],
+    ...checkPartialSaleEnd(),
+    ...checkResetKeepsLog(),
+  ];
+
+  console.log(`STRESS: ${VIEWS} view rounds, ${VIEWERS} viewers, rival write rate ${RIVAL_WRITE_RATE}`);
+  console.log(`- Charged views: ${chargedViews} ours + ${interleaving.rivalViews()} rival = ${state.totalViews} recorded`);
+  console.log(`- Conflicts surfaced after retries: ${surfacedConflicts}`);
+  console.log(`- Final price: ${formatMoney(state.currentPrice, config.currency)} | platform revenue ${formatMoney(state.totalPlatformRevenue, config.currency)}`);
+  checks.forEach(([name, passed]) => console.log(`${passed ? 'PASS' : 'FAIL'}  ${name}`));
+
+  if (checks.some(([, passed]) => !passed)) process.exit(1);
+};
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,30 @@
+/**
+ * Lints a product catalogue file before it is deployed.
+ *
+ *   npm run validate:config -- [path/to/products.json]
+ *
+ * Exits with status 1 and lists every field-level error if the file is invalid.
+ */
+import fs from 'fs';
+import path from 'path';
+import { validateCatalogue, formatConfigError } from '../services/dropConfigValidator';
+
+const filePath = path.resolve(process.argv[2] || 'config/products.json');
+
+let raw: unknown;
+try {
+  raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+} catch (err: any) {
+  console.error(`Could not read ${filePath}: ${err.message}`);
+  process.exit(1);
+}
+
+const result = validateCatalogue(raw);
+
+if (result.valid) {
+  console.log(`${filePath}: OK (${Object.keys(raw as object).length} drops)`);
+} else {
+  console.error(`${filePath}: ${result.errors.length} error(s)`);
+  result.errors.forEach((error) => console.error(formatConfigError(error)));
+  process.exit(1);
+}
@@ -0,0 +1,508 @@
+import http from 'http';
+import crypto from 'crypto';
+import {
+  getStatus,
+  getEvents,
+  postView,
+  postCancel,
+  postBuy,
+  getWallet,
+  postTopUp,
+  cancelDrop,
+  startDrop,
+  pauseDrop,
+  resumeDrop,
+  resetDrop,
+  getCatalogue,
+  getAdminDrops,
+  getAnalytics,
+  createDrop,
+  updateDrop,
+  setDropImage,
+  postSignup,
+  postLogin,
+  checkAuthAttempt,
+  postLogout,
+  getSessionUser,
+  getAccountHistory,
+  getAccountHistoryCsv,
+  getOrders,
+  getAdminOrders,
+  updateOrderStatus,
+  checkClientActivity,
+  getAbuseFlags,
+  reviewAbuseFlag,
+  setUserTier,
+} from '../services/api';
+import { PublicUser } from '../services/auth';
+import { DropAction } from '../services/rateLimiter';
+import { ApiError, badRequest, unauthorized, signInRequired } from '../services/apiErrors';
+import {
+  ErrorResponse,
+  VIEW_STATUS_CODES,
+  PURCHASE_STATUS_CODES,
+  parseCredentialsRequest,
+  parseHistoryQuery,
+  parseOrderStatusRequest,
+  parseAbuseFlagsQuery,
+  parseAbuseReviewRequest,
+  parseUserTierRequest,
+  parseViewRequest,
+  parseCancelRequest,
+  parseBuyRequest,
+  parseTopUpRequest,
+  parseDropImageRequest,
+  topUpStatusCode,
+} from '../services/apiSchema';
+import { handleDropStream } from './dropStream';
+
+const MAX_BODY_BYTES = 64 * 1024;
+// Uploaded images travel inline as data URLs
+const MAX_IMAGE_BODY_BYTES = 5 * 1024 * 1024;
+
+interface RouteResponse {
+  status: number;
+  body: unknown;
+  contentType?: string;          // body is sent as-is when set; JSON otherwise
+  filename?: string;             // sent as an attachment
+}
+
+interface RequestContext {
+  isAdmin: boolean;              // bearer token matched the server's admin token
+  token?: string;                // the bearer token, if any
+  user?: PublicUser;             // bearer token is a live session
+  ip: string;
+  deviceId?: string;             // X-Device-Id header, generated by the client
+  query: URLSearchParams;
+}
+
+type RouteHandler = (params: string[], body: unknown, context: RequestContext) => RouteResponse | Promise<RouteResponse>;
+
+interface Route {
+  method: 'GET' | 'POST';
+  pattern: RegExp;
+  handler: RouteHandler;
+  maxBodyBytes?: number;         // defaults to MAX_BODY_BYTES
+}
+
+const ok = (body: unknown): RouteResponse => ({ status: 200, body });
+
+const requireAdmin = (context: RequestContext) => {
+  if (!context.isAdmin) throw unauthorized();
+};
+
+const requireUser = (context: RequestContext): PublicUser => {
+  if (!context.user) throw signInRequired();
+  return context.user;
+};
+
+/**
+ * Signed-in user for a view, cancel or buy, after rate limits and abuse checks.
+ */
+const requireActiveUser = (context: RequestContext, action: DropAction, productId: string): PublicUser => {
+  const user = requireUser(context);
+  checkClientActivity(action, productId, { userId: user.id, ip: context.ip, deviceId: context.deviceId });
+  return user;
+};
+
+const routes: Route[] = [
+  {
+    method: 'POST',
+    pattern: /^\/auth\/signup$/,
+    handler: async (_, body, context) => {
+      const { email, password } = parseCredentialsRequest(body);
+      checkAuthAttempt({ ip: context.ip, deviceId: context.deviceId });
+      return { status: 201, body: await postSignup(email, password) };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/auth\/login$/,
+    handler: async (_, body, context) => {
+      const { email, password } = parseCredentialsRequest(body);
+      checkAuthAttempt({ ip: context.ip, deviceId: context.deviceId });
+      return ok(await postLogin(email, password));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/auth\/logout$/,
+    handler: (_, __, context) => {
+      requireUser(context);
+      postLogout(context.token!);
+      return ok({ success: true });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/auth\/me$/,
+    handler: (_, __, context) => ok(requireUser(context)),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/status\/([^/]+)$/,
+    handler: ([productId], _, context) => ok(getStatus(productId, context.user?.id)),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/view$/,
+    handler: (_, body, context) => {
+      const { productId, idempotencyKey } = parseViewRequest(body);
+      const { id, tier } = requireActiveUser(context, 'VIEW', productId);
+      const result = postView(productId, id, { tier }, idempotencyKey);
+      return { status: VIEW_STATUS_CODES[result.status], body: result };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/cancel$/,
+    handler: (_, body, context) => {
+      const { productId } = parseCancelRequest(body);
+      const { id } = requireActiveUser(context, 'CANCEL', productId);
+      return ok(postCancel(productId, id));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/buy$/,
+    handler: (_, body, context) => {
+      const { productId, shippingAddress, idempotencyKey } = parseBuyRequest(body);
+      const { id } = requireActiveUser(context, 'BUY', productId);
+      const result = postBuy(productId, id, shippingAddress, idempotencyKey);
+      return { status: PURCHASE_STATUS_CODES[result.status], body: result };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/wallet$/,
+    handler: (_, __, context) => ok(getWallet(requireUser(context).id)),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/wallet\/topup$/,
+    handler: async (_, body, context) => {
+      const { id } = requireUser(context);
+      const { amount, currency, paymentToken } = parseTopUpRequest(body);
+      const result = await postTopUp(id, amount, currency, paymentToken);
+      return { status: topUpStatusCode(result), body: result };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/orders$/,
+    handler: (_, __, context) => ok(getOrders(requireUser(context).id)),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/account\/history$/,
+    handler: (_, __, context) => {
+      const { id } = requireUser(context);
+      const { offset, limit } = parseHistoryQuery(context.query);
+      return ok(getAccountHistory(id, offset, limit));
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/account\/history\.csv$/,
+    handler: (_, __, context) => ({
+      status: 200,
+      body: getAccountHistoryCsv(requireUser(context).id),
+      contentType: 'text/csv; charset=utf-8',
+      filename: 'qomo-history.csv',
+    }),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/drops$/,
+    handler: () => ok(getCatalogue()),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/admin\/drops$/,
+    handler: (_, __, context) => {
+      requireAdmin(context);
+      return ok(getAdminDrops());
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/admin\/analytics$/,
+    handler: (_, __, context) => {
+      requireAdmin(context);
+      return ok(getAnalytics());
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/admin\/orders$/,
+    handler: (_, __, context) => {
+      requireAdmin(context);
+      return ok(getAdminOrders());
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/admin\/orders\/([^/]+)\/status$/,
+    handler: ([orderId], body, context) => {
+      requireAdmin(context);
+      const { status, trackingNumber, note } = parseOrderStatusRequest(body);
+      return ok(updateOrderStatus(orderId, status, { trackingNumber, note }));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/admin\/users\/([^/]+)\/tier$/,
+    handler: ([userId], body, context) => {
+      requireAdmin(context);
+      return ok(setUserTier(userId, parseUserTierRequest(body).tier));
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/admin\/abuse-flags$/,
+    handler: (_, __, context) => {
+      requireAdmin(context);
+      return ok(getAbuseFlags(parseAbuseFlagsQuery(context.query).status));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/admin\/abuse-flags\/([^/]+)\/review$/,
+    handler: ([flagId], body, context) => {
+      requireAdmin(context);
+      const { status, note } = parseAbuseReviewRequest(body);
+      return ok(reviewAbuseFlag(flagId, status, note));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/admin\/drops$/,
+    handler: (_, body, context) => {
+      requireAdmin(context);
+      return { status: 201, body: createDrop(body) };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/admin\/drops\/([^/]+)$/,
+    handler: ([productId], body, context) => {
+      requireAdmin(context);
+      return ok(updateDrop(productId, body));
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/admin\/drops\/([^/]+)\/events$/,
+    handler: ([productId], _, context) => {
+      requireAdmin(context);
+      return ok(getEvents(productId));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/admin\/drops\/([^/]+)\/image$/,
+    maxBodyBytes: MAX_IMAGE_BODY_BYTES,
+    handler: ([productId], body, context) => {
+      requireAdmin(context);
+      return ok(setDropImage(productId, parseDropImageRequest(body).imageUrl));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/admin\/drops\/([^/]+)\/start$/,
+    handler: ([productId], _, context) => {
+      requireAdmin(context);
+      return ok(startDrop(productId));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/admin\/drops\/([^/]+)\/cancel$/,
+    handler: ([productId], _, context) => {
+      requireAdmin(context);
+      return ok(cancelDrop(productId));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/admin\/drops\/([^/]+)\/pause$/,
+    handler: ([productId], _, context) => {
+      requireAdmin(context);
+      return ok(pauseDrop(productId));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/admin\/drops\/([^/]+)\/resume$/,
+    handler: ([productId], _, context) => {
+      requireAdmin(context);
+      return ok(resumeDrop(productId));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/admin\/drops\/([^/]+)\/reset$/,
+    handler: ([productId], _, context) => {
+      requireAdmin(context);
+      return ok(resetDrop(productId));
+    },
+  },
+];
+
+const STREAM_PATTERN = /^\/stream\/([^/]+)$/;
+
+// A malformed escape like %E0%A4%A is the client's mistake, not a server error
+const decodePathSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw badRequest(`Malformed path segment "${segment}".`);
+  }
+};
+
+const readJsonBody = (req: http.IncomingMessage, maxBytes: number): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(badRequest('Request body too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (chunks.length === 0) return resolve(undefined);
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      } catch {
+        reject(badRequest('Request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendResponse = (res: http.ServerResponse, response: RouteResponse) => {
+  if (!response.contentType) return sendJson(res, response.status, response.body);
+
+  const headers: http.OutgoingHttpHeaders = { 'Content-Type': response.contentType };
+  if (response.filename) headers['Content-Disposition'] = `attachment; filename="${response.filename}"`;
+  res.writeHead(response.status, headers);
+  res.end(response.body as string);
+};
+
+const sendError = (res: http.ServerResponse, err: unknown) => {
+  const apiError = err instanceof ApiError
+    ? err
+    : new ApiError(500, 'INTERNAL', 'Internal server error.');
+  if (!(err instanceof ApiError)) console.error(err);
+
+  if (apiError.retryAfterMs !== undefined) {
+    res.setHeader('Retry-After', String(Math.ceil(apiError.retryAfterMs / 1000)));
+  }
+  const body: ErrorResponse = { error: { code: apiError.code, message: apiError.message } };
+  sendJson(res, apiError.status, body);
+};
+
+const setCorsHeaders = (res: http.ServerResponse) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Device-Id');
+};
+
+const getBearerToken = (req: http.IncomingMessage): string | undefined => {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined;
+};
+
+const isAdminToken = (token: string | undefined, adminToken: string | undefined): boolean => {
+  if (!token || !adminToken) return false;
+  const given = Buffer.from(token);
+  const expected = Buffer.from(adminToken);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+// Device IDs are opaque client strings; anything longer is ignored
+const MAX_DEVICE_ID_LENGTH = 128;
+
+const getClientIp = (req: http.IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded.trim()) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+const getDeviceId = (req: http.IncomingMessage): string | undefined => {
+  const header = req.headers['x-device-id'];
+  return typeof header === 'string' && header && header.length <= MAX_DEVICE_ID_LENGTH ? header : undefined;
+};
+
+const createContext = (req: http.IncomingMessage, query: URLSearchParams, options: ApiServerOptions): RequestContext => {
+  const client = { ip: getClientIp(req, !!options.trustProxy), deviceId: getDeviceId(req), query };
+  const token = getBearerToken(req);
+  if (!token) return { isAdmin: false, ...client };
+  return { isAdmin: isAdminToken(token, options.adminToken), token, user: getSessionUser(token), ...client };
+};
+
+export interface ApiServerOptions {
+  adminToken?: string;           // admin routes reject every request when unset
+  trustProxy?: boolean;          // take the client IP from X-Forwarded-For (behind a reverse proxy)
+}
+
+/**
+ * Creates the HTTP server for the drop API (routes documented in services/api.ts).
+ */
+export const createApiServer = (options: ApiServerOptions = {}): http.Server =>
+  http.createServer(async (req, res) => {
+    setCorsHeaders(res);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+
+    const streamMatch = req.method === 'GET' && STREAM_PATTERN.exec(pathname);
+    if (streamMatch) {
+      try {
+        // EventSource can't send headers, so the stream takes the session token in the query string
+        const token = searchParams.get('token');
+        const viewer = token ? getSessionUser(token) : undefined;
+        handleDropStream(req, res, decodePathSegment(streamMatch[1]), viewer?.id);
+      } catch (err) {
+        sendError(res, err);
+      }
+      return;
+    }
+
+    const pathMatches = routes.filter(route => route.pattern.test(pathname));
+    const route = pathMatches.find(r => r.method === req.method);
+
+    if (!route) {
+      const status = pathMatches.length > 0 ? 405 : 404;
+      sendJson(res, status, {
+        error: { code: status === 404 ? 'NOT_FOUND' : 'BAD_REQUEST', message: `No route for ${req.method} ${pathname}` },
+      });
+      return;
+    }
+
+    try {
+      const params = route.pattern.exec(pathname)!.slice(1).map(decodePathSegment);
+      const body = req.method === 'POST' ? await readJsonBody(req, route.maxBodyBytes ?? MAX_BODY_BYTES) : undefined;
+      const context = createContext(req, searchParams, options);
+      const response = await route.handler(params, body, context);
+      sendResponse(res, response);
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
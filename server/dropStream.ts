@@ -0,0 +1,41 @@
+import http from 'http';
+import { getStatus, subscribeToDrop, toViewerUpdate } from '../services/api';
+import { DropStreamMessage } from '../services/apiSchema';
+
+const KEEPALIVE_MS = 15000;
+
+const writeMessage = (res: http.ServerResponse, message: DropStreamMessage) => {
+  res.write(`data: ${JSON.stringify(message)}\n\n`);
+};
+
+/**
+ * GET /stream/:productId
+ * Holds the connection open and pushes every drop change as a Server-Sent Event,
+ * shown as `viewerId` may see it (the public view without one).
+ * Throws (before any bytes are written) if the product doesn't exist.
+ */
+export const handleDropStream = (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  productId: string,
+  viewerId?: string
+) => {
+  const state = getStatus(productId, viewerId);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  writeMessage(res, { type: 'SNAPSHOT', state });
+
+  const unsubscribe = subscribeToDrop(productId, (update) => {
+    writeMessage(res, { type: 'UPDATE', ...toViewerUpdate(update, viewerId) });
+  });
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_MS);
+
+  req.on('close', () => {
+    clearInterval(keepalive);
+    unsubscribe();
+  });
+};
@@ -0,0 +1,36 @@
+import path from 'path';
+import { setRepository, setWalletService, setIdempotencyStore, setAuthService, setOrderStore, setSupplierNotifier } from '../services/api';
+import { createFileDropRepository } from '../services/fileDropRepository';
+import { createFileWalletStore } from '../services/fileWalletStore';
+import { createWalletService } from '../services/wallet';
+import { createFakePaymentProvider } from '../services/paymentProvider';
+import { createAuthService, DEFAULT_SESSION_TTL_MS } from '../services/auth';
+import { createFileAuthStore } from '../services/fileAuthStore';
+import { createFileOrderStore } from '../services/fileOrderStore';
+import { createWebhookSupplierNotifier } from '../services/supplierNotifier';
+import { createIdempotencyStore, DEFAULT_IDEMPOTENCY_TTL_MS } from '../services/idempotency';
+import { startLockSweeper } from '../services/lockSweeper';
+import { createApiServer } from './app';
+
+const PORT = Number(process.env.PORT || 8787);
+const DATA_FILE = process.env.QOMO_DATA_FILE || path.resolve('data', 'drops.json');
+const WALLET_FILE = process.env.QOMO_WALLET_FILE || path.resolve('data', 'wallets.json');
+const AUTH_FILE = process.env.QOMO_AUTH_FILE || path.resolve('data', 'auth.json');
+const SESSION_TTL_MS = Number(process.env.QOMO_SESSION_TTL_MS || DEFAULT_SESSION_TTL_MS);
+const ORDER_FILE = process.env.QOMO_ORDER_FILE || path.resolve('data', 'orders.json');
+const SUPPLIER_WEBHOOK_URL = process.env.QOMO_SUPPLIER_WEBHOOK_URL;
+const ADMIN_TOKEN = process.env.QOMO_ADMIN_TOKEN;
+const TRUST_PROXY = process.env.QOMO_TRUST_PROXY === '1';
+const IDEMPOTENCY_TTL_MS = Number(process.env.QOMO_IDEMPOTENCY_TTL_MS || DEFAULT_IDEMPOTENCY_TTL_MS);
+
+setRepository(createFileDropRepository(DATA_FILE));
+setWalletService(createWalletService(createFileWalletStore(WALLET_FILE), createFakePaymentProvider()));
+setIdempotencyStore(createIdempotencyStore(IDEMPOTENCY_TTL_MS));
+setAuthService(createAuthService(createFileAuthStore(AUTH_FILE), SESSION_TTL_MS));
+setOrderStore(createFileOrderStore(ORDER_FILE));
+if (SUPPLIER_WEBHOOK_URL) setSupplierNotifier(createWebhookSupplierNotifier(SUPPLIER_WEBHOOK_URL));
+startLockSweeper();
+
+createApiServer({ adminToken: ADMIN_TOKEN, trustProxy: TRUST_PROXY }).listen(PORT, () => {
+  console.log(`Qomo API listening on http://localhost:${PORT} (store: ${DATA_FILE})`);
+});
@@ -0,0 +1,218 @@
+/**
+ * Heuristics that flag suspicious activity on drops for an admin to review.
+ * Flags don't block anyone on their own; an admin who confirms one blocks the
+ * accounts involved from viewing, queueing and buying (the block is stored on
+ * the account by the auth service, see api.reviewAbuseFlag). Signals:
+ * - RAPID_CANCEL_LOOP: a user keeps cancelling and viewing again straight
+ *   away, cycling the lock or their queue slot.
+ * - SHARED_DEVICE / SHARED_IP: many accounts acting from one client, the
+ *   usual way to hold several queue slots.
+ */
+import { DropAction, SignedInClient } from './rateLimiter';
+
+export type AbuseSignal = 'RAPID_CANCEL_LOOP' | 'SHARED_DEVICE' | 'SHARED_IP';
+export type AbuseFlagStatus = 'OPEN' | 'DISMISSED' | 'CONFIRMED';
+
+export interface AbuseFlag {
+  id: string;
+  signal: AbuseSignal;
+  subject: string;               // the user ID, device ID or IP the signal is about
+  userIds: string[];             // accounts involved; confirming the flag blocks them
+  productId?: string;            // RAPID_CANCEL_LOOP: the drop being cycled
+  detail: string;
+  status: AbuseFlagStatus;
+  raisedAt: number;
+  updatedAt: number;             // last time the pattern was seen
+  reviewedAt?: number;
+  reviewNote?: string;
+}
+
+export interface AbuseThresholds {
+  cancelLoops: number;           // cancel → view within loopGapMs, this many times...
+  loopGapMs: number;
+  loopWindowMs: number;          // ...within this window
+  usersPerDevice: number;        // distinct accounts on one device...
+  usersPerIp: number;            // ...or one IP...
+  clientWindowMs: number;        // ...within this window
+}
+
+export const DEFAULT_ABUSE_THRESHOLDS: AbuseThresholds = {
+  cancelLoops: 5,
+  loopGapMs: 10 * 1000,
+  loopWindowMs: 10 * 60 * 1000,
+  usersPerDevice: 3,
+  usersPerIp: 20,
+  clientWindowMs: 60 * 60 * 1000,
+};
+
+export interface ClientActivity {
+  action: DropAction;
+  productId: string;
+  client: SignedInClient;
+}
+
+export interface AbuseMonitor {
+  /** Feeds one call through the heuristics; returns the flags it raised or updated. */
+  record(activity: ClientActivity, now?: number): AbuseFlag[];
+  /** Flags newest first, optionally only those with `status`. */
+  list(status?: AbuseFlagStatus): AbuseFlag[];
+  review(flagId: string, status: 'DISMISSED' | 'CONFIRMED', note?: string, now?: number): AbuseFlag | undefined;
+}
+
+// How often idle users, devices and IPs are swept out of memory
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * In-memory monitor; flags reset when the server restarts. After a flag is
+ * reviewed, the same signal for the same subject isn't raised again until the
+ * pattern recurs after the review.
+ */
+export const createAbuseMonitor = (thresholds: AbuseThresholds = DEFAULT_ABUSE_THRESHOLDS): AbuseMonitor => {
+  const flags = new Map<string, AbuseFlag>();
+  // Latest flag per signal and subject
+  const latest = new Map<string, AbuseFlag>();
+
+  // Per user and drop: when they last cancelled, and when each loop closed
+  const lastCancelAt = new Map<string, number>();
+  const loops = new Map<string, number[]>();
+  // Per device / IP: the accounts seen, with when each was first and last seen
+  const clientUsers = new Map<string, Map<string, { firstSeenAt: number; lastSeenAt: number }>>();
+  let lastPrunedAt = 0;
+
+  const prune = (now: number) => {
+    if (now - lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    lastPrunedAt = now;
+    lastCancelAt.forEach((at, key) => {
+      if (at <= now - thresholds.loopGapMs) lastCancelAt.delete(key);
+    });
+    loops.forEach((times, key) => {
+      if (times[times.length - 1] <= now - thresholds.loopWindowMs) loops.delete(key);
+    });
+    clientUsers.forEach((seen, key) => {
+      seen.forEach(({ lastSeenAt }, userId) => {
+        if (lastSeenAt <= now - thresholds.clientWindowMs) seen.delete(userId);
+      });
+      if (seen.size === 0) clientUsers.delete(key);
+    });
+  };
+
+  const raise = (
+    signal: AbuseSignal,
+    subject: string,
+    userIds: string[],
+    detail: string,
+    since: number,
+    now: number,
+    productId?: string
+  ): AbuseFlag | null => {
+    const key = `${signal}:${subject}`;
+    const previous = latest.get(key);
+
+    if (previous?.status === 'OPEN') {
+      const updated = { ...previous, userIds, detail, updatedAt: now };
+      flags.set(updated.id, updated);
+      latest.set(key, updated);
+      return updated;
+    }
+    // Evidence from before the last review was already judged
+    if (previous && previous.reviewedAt! >= since) return null;
+
+    const flag: AbuseFlag = {
+      id: `flag_${crypto.randomUUID()}`,
+      signal,
+      subject,
+      userIds,
+      ...(productId ? { productId } : {}),
+      detail,
+      status: 'OPEN',
+      raisedAt: now,
+      updatedAt: now,
+    };
+    flags.set(flag.id, flag);
+    latest.set(key, flag);
+    return flag;
+  };
+
+  const checkCancelLoop = ({ action, productId, client }: ClientActivity, now: number): AbuseFlag | null => {
+    const key = `${client.userId}:${productId}`;
+    if (action === 'CANCEL') {
+      lastCancelAt.set(key, now);
+      return null;
+    }
+    if (action !== 'VIEW') return null;
+
+    const cancelledAt = lastCancelAt.get(key);
+    if (cancelledAt === undefined || now - cancelledAt > thresholds.loopGapMs) return null;
+    lastCancelAt.delete(key);
+
+    const recent = [...(loops.get(key) || []), now].filter(at => at > now - thresholds.loopWindowMs);
+    loops.set(key, recent);
+    if (recent.length < thresholds.cancelLoops) return null;
+
+    return raise(
+      'RAPID_CANCEL_LOOP',
+      client.userId,
+      [client.userId],
+      `${recent.length} cancel-and-view loops on ${productId} within ${Math.round(thresholds.loopWindowMs / 60000)} minutes.`,
+      recent[recent.length - thresholds.cancelLoops],
+      now,
+      productId
+    );
+  };
+
+  const checkSharedClient = (
+    signal: 'SHARED_DEVICE' | 'SHARED_IP',
+    subject: string | undefined,
+    userId: string,
+    maxUsers: number,
+    now: number
+  ): AbuseFlag | null => {
+    if (!subject) return null;
+    const key = `${signal}:${subject}`;
+    const seen = clientUsers.get(key) || new Map();
+    seen.set(userId, { firstSeenAt: seen.get(userId)?.firstSeenAt ?? now, lastSeenAt: now });
+    seen.forEach(({ lastSeenAt }, id) => {
+      if (lastSeenAt <= now - thresholds.clientWindowMs) seen.delete(id);
+    });
+    clientUsers.set(key, seen);
+    if (seen.size < maxUsers) return null;
+
+    const userIds = [...seen.keys()];
+    return raise(
+      signal,
+      subject,
+      userIds,
+      `${userIds.length} accounts from one ${signal === 'SHARED_DEVICE' ? 'device' : 'IP'} within ${Math.round(thresholds.clientWindowMs / 60000)} minutes.`,
+      // The pattern is new once an account joins after the last review
+      Math.max(...[...seen.values()].map(user => user.firstSeenAt)),
+      now
+    );
+  };
+
+  return {
+    record: (activity, now = Date.now()) => {
+      prune(now);
+      return [
+        checkCancelLoop(activity, now),
+        checkSharedClient('SHARED_DEVICE', activity.client.deviceId, activity.client.userId, thresholds.usersPerDevice, now),
+        checkSharedClient('SHARED_IP', activity.client.ip, activity.client.userId, thresholds.usersPerIp, now),
+      ].filter((flag): flag is AbuseFlag => flag !== null);
+    },
+
+    list: (status) => [...flags.values()]
+      .filter(flag => !status || flag.status === status)
+      .sort((a, b) => b.updatedAt - a.updatedAt),
+
+    review: (flagId, status, note, now = Date.now()) => {
+      const flag = flags.get(flagId);
+      if (!flag) return undefined;
+
+      const reviewed: AbuseFlag = { ...flag, status, reviewedAt: now, ...(note ? { reviewNote: note } : {}) };
+      flags.set(flagId, reviewed);
+      if (latest.get(`${flag.signal}:${flag.subject}`)?.id === flagId) {
+        latest.set(`${flag.signal}:${flag.subject}`, reviewed);
+      }
+      return reviewed;
+    },
+  };
+};
@@ -0,0 +1,94 @@
+/**
+ * A user's activity across drops, for the My Account page.
+ * Read from the drops' event logs: charged views (fee and the price each one
+ * revealed), queue entries, purchases and refunds (of viewing fees when a drop
+ * ends, and of cancelled or returned orders). Resetting a drop keeps its log,
+ * so activity from before the reset is still listed.
+ */
+import { DropEvent } from './pricingEngine';
+import { DropRecord } from './dropRepository';
+import { Money, CurrencyCode, ZERO, toMajor } from './money';
+import { toCsv } from './csv';
+
+export type HistoryEntryType = 'VIEW' | 'QUEUED' | 'PURCHASE' | 'REFUND';
+
+export interface HistoryEntry {
+  type: HistoryEntryType;
+  at: number;
+  productId: string;
+  productName: string;
+  currency: CurrencyCode;
+  amount: Money;                 // VIEW: fee paid; PURCHASE: sold price; REFUND: amount returned; QUEUED: 0
+  priceRevealed?: Money;         // VIEW: the price after the view
+  refundKind?: 'REFUND' | 'CREDIT';
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+const toEntry = (event: DropEvent, userId: string): Pick<HistoryEntry, 'type' | 'amount' | 'priceRevealed' | 'refundKind'> | null => {
+  switch (event.type) {
+    case 'VIEW_CHARGED':
+      return event.viewerId === userId ? { type: 'VIEW', amount: event.fee, priceRevealed: event.priceAfter } : null;
+    case 'QUEUED':
+      return event.viewerId === userId ? { type: 'QUEUED', amount: ZERO } : null;
+    case 'PURCHASED':
+      return event.buyerId === userId ? { type: 'PURCHASE', amount: event.soldPrice } : null;
+    case 'REFUND_ISSUED':
+      return event.viewerId === userId ? { type: 'REFUND', amount: event.amount, refundKind: event.kind } : null;
+    case 'SALE_REFUNDED':
+      return event.buyerId === userId ? { type: 'REFUND', amount: event.amount, refundKind: 'REFUND' } : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Every entry for `userId` across `drops`, newest first.
+ */
+export const buildAccountHistory = (userId: string, drops: DropRecord[]): HistoryEntry[] => {
+  const entries: HistoryEntry[] = [];
+
+  drops.forEach(({ config, events }) => {
+    events.forEach((event) => {
+      const entry = toEntry(event, userId);
+      if (entry) {
+        entries.push({ ...entry, at: event.at, productId: config.productId, productName: config.name, currency: config.currency });
+      }
+    });
+  });
+
+  // Stable sort keeps same-millisecond events in log order
+  return entries.sort((a, b) => b.at - a.at);
+};
+
+export const paginateHistory = (entries: HistoryEntry[], offset: number, limit: number): HistoryPage => ({
+  entries: entries.slice(offset, offset + limit),
+  total: entries.length,
+  offset,
+  limit,
+});
+
+const CSV_COLUMNS = ['at', 'type', 'productId', 'productName', 'currency', 'amount', 'priceRevealed', 'refundKind'];
+
+/**
+ * One row per entry. Amounts in major units.
+ */
+export const historyToCsv = (entries: HistoryEntry[]): string =>
+  toCsv([
+    CSV_COLUMNS,
+    ...entries.map(entry => [
+      new Date(entry.at).toISOString(),
+      entry.type,
+      entry.productId,
+      entry.productName,
+      entry.currency,
+      toMajor(entry.amount).toFixed(2),
+      entry.priceRevealed !== undefined ? toMajor(entry.priceRevealed).toFixed(2) : '',
+      entry.refundKind ?? '',
+    ]),
+  ]);
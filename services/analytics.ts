@@ -0,0 +1,186 @@
+/**
+ * Drop analytics.
+ * Derives performance metrics from a drop's event log: how many views and how
+ * long it took to sell, fee revenue against the discount given, queue
+ * abandonment and how often a lock turned into a purchase.
+ */
+import { DropEvent, DropPhase, getInventorySettings } from './pricingEngine';
+import { DropRecord } from './dropRepository';
+import { Money, CurrencyCode, ZERO, addMoney, subtractMoney, multiplyMoney, fromMajor } from './money';
+
+export interface PricePoint {
+  at: number;
+  price: Money;
+}
+
+export interface SaleAnalytics {
+  at: number;
+  soldPrice: Money;
+  discount: Money;               // basePrice - soldPrice
+  discountRate: number;          // discount / basePrice
+  views: number;                 // charged views since the previous sale (or the start)
+  msSinceStart: number;
+}
+
+export interface DropAnalytics {
+  productId: string;
+  name: string;
+  currency: CurrencyCode;
+  phase: DropPhase;
+  startedAt: number | null;      // DROP_STARTED, else startsAt, else first event
+  quantity: number;
+  unitsSold: number;
+  views: number;
+  sales: SaleAnalytics[];
+
+  // Selling
+  viewsToFirstSale: number | null;
+  avgViewsPerSale: number | null;
+  timeToFirstSaleMs: number | null;
+
+  // Money
+  feeRevenue: Money;             // viewing fees collected, net of refunds and credits
+  discountGiven: Money;          // sum of discounts across sales
+  avgDiscount: Money | null;
+  avgDiscountRate: number | null;
+
+  // Queue and lock funnel; rates are 0..1, null when nothing to divide by
+  queueJoins: number;
+  queueAbandoned: number;        // evicted: claim missed or TTL expired
+  queueAbandonmentRate: number | null;
+  locksTaken: number;            // one per charged view
+  locksExpired: number;
+  locksReleased: number;
+  lockConversionRate: number | null;
+
+  priceHistory: PricePoint[];    // base price at the start, then after every view and sale
+}
+
+export interface AnalyticsSummary {
+  drops: number;
+  views: number;
+  unitsSold: number;
+  lockConversionRate: number | null;
+  queueAbandonmentRate: number | null;
+  byCurrency: { currency: CurrencyCode; feeRevenue: Money; discountGiven: Money }[];
+}
+
+const rate = (part: number, whole: number) => whole > 0 ? part / whole : null;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const countOf = (events: DropEvent[], type: DropEvent['type']) =>
+  events.filter(event => event.type === type).length;
+
+const findStart = ({ config, events }: DropRecord): number | null => {
+  const started = events.find(event => event.type === 'DROP_STARTED');
+  if (started) return started.at;
+  if (config.startsAt) return Date.parse(config.startsAt);
+  return events.length > 0 ? events[0].at : null;
+};
+
+/**
+ * Computes a drop's metrics from its config, state and event log.
+ */
+export const analyzeDrop = (record: DropRecord): DropAnalytics => {
+  const { config, state, events } = record;
+  const basePrice = fromMajor(config.basePrice);
+  const startedAt = findStart(record);
+
+  const sales: SaleAnalytics[] = [];
+  const priceHistory: PricePoint[] = startedAt !== null ? [{ at: startedAt, price: basePrice }] : [];
+  let feeRevenue = ZERO;
+  let viewsSinceSale = 0;
+
+  events.forEach((event) => {
+    switch (event.type) {
+      case 'VIEW_CHARGED':
+        viewsSinceSale++;
+        feeRevenue = addMoney(feeRevenue, event.fee);
+        priceHistory.push({ at: event.at, price: event.priceAfter });
+        break;
+      case 'REFUND_ISSUED':
+        feeRevenue = subtractMoney(feeRevenue, event.amount);
+        break;
+      case 'PURCHASED': {
+        const discount = subtractMoney(basePrice, event.soldPrice);
+        sales.push({
+          at: event.at,
+          soldPrice: event.soldPrice,
+          discount,
+          discountRate: discount / basePrice,
+          views: viewsSinceSale,
+          msSinceStart: startedAt !== null ? event.at - startedAt : 0,
+        });
+        viewsSinceSale = 0;
+        priceHistory.push({ at: event.at, price: event.priceAfter });
+        break;
+      }
+      case 'DROP_RESET':
+        viewsSinceSale = 0;
+        priceHistory.push({ at: event.at, price: event.initialState.currentPrice });
+        break;
+    }
+  });
+
+  const discountGiven = addMoney(ZERO, ...sales.map(sale => sale.discount));
+  const locksTaken = countOf(events, 'VIEW_CHARGED');
+  const queueJoins = countOf(events, 'QUEUED');
+  const queueAbandoned = countOf(events, 'QUEUE_EVICTED');
+
+  return {
+    productId: config.productId,
+    name: config.name,
+    currency: config.currency,
+    phase: state.phase,
+    startedAt,
+    quantity: getInventorySettings(config).quantity,
+    unitsSold: sales.length,
+    views: locksTaken,
+    sales,
+
+    viewsToFirstSale: sales.length > 0 ? sales[0].views : null,
+    avgViewsPerSale: average(sales.map(sale => sale.views)),
+    timeToFirstSaleMs: sales.length > 0 ? sales[0].msSinceStart : null,
+
+    feeRevenue,
+    discountGiven,
+    avgDiscount: sales.length > 0 ? multiplyMoney(discountGiven, 1 / sales.length) : null,
+    avgDiscountRate: average(sales.map(sale => sale.discountRate)),
+
+    queueJoins,
+    queueAbandoned,
+    queueAbandonmentRate: rate(queueAbandoned, queueJoins),
+    locksTaken,
+    locksExpired: countOf(events, 'LOCK_EXPIRED'),
+    locksReleased: countOf(events, 'LOCK_RELEASED'),
+    lockConversionRate: rate(sales.length, locksTaken),
+
+    priceHistory,
+  };
+};
+
+/**
+ * Totals across drops. Money is only summed within a currency.
+ */
+export const summarizeAnalytics = (drops: DropAnalytics[]): AnalyticsSummary => {
+  const sum = (pick: (drop: DropAnalytics) => number) => drops.reduce((total, drop) => total + pick(drop), 0);
+  const currencies = [...new Set(drops.map(drop => drop.currency))];
+
+  return {
+    drops: drops.length,
+    views: sum(drop => drop.views),
+    unitsSold: sum(drop => drop.unitsSold),
+    lockConversionRate: rate(sum(drop => drop.unitsSold), sum(drop => drop.locksTaken)),
+    queueAbandonmentRate: rate(sum(drop => drop.queueAbandoned), sum(drop => drop.queueJoins)),
+    byCurrency: currencies.map((currency) => {
+      const inCurrency = drops.filter(drop => drop.currency === currency);
+      return {
+        currency,
+        feeRevenue: addMoney(ZERO, ...inCurrency.map(drop => drop.feeRevenue)),
+        discountGiven: addMoney(ZERO, ...inCurrency.map(drop => drop.discountGiven)),
+      };
+    }),
+  };
+};
@@ -1,96 +1,971 @@
 import { 
   DropConfig, 
   DropState, 
-  initDrop, 
+  DropEvent,
+  ViewerDropState,
+  toViewerState,
+  toViewerEvents,
   applyView, 
-  applyPurchase, 
+  beginPurchase,
+  commitPurchase,
+  rollbackPurchase,
+  refundSale,
   releaseLock,
+  evictViewer,
+  sweepDrop,
+  nextSweepAt,
+  endDrop,
+  applyStart,
+  applyPause,
+  applyResume,
+  applyReset,
+  isDropExpired,
+  LifecycleResult,
+  DropEndReason,
+  DropEndResult,
+  replayDrop,
+  sinceLastReset,
   ViewEventResult, 
+  ViewOptions,
   PurchaseResult 
 } from './pricingEngine';
-import productsData from '../config/products';
+import { DropRepository, createInMemoryDropRepository } from './dropRepository';
+import { WalletService, WalletBalance, WalletEntry, TopUpResult, createWalletService, createInMemoryWalletStore } from './wallet';
+import { createFakePaymentProvider } from './paymentProvider';
+import { Money, ZERO, CurrencyCode } from './money';
+import { IdempotencyStore, createIdempotencyStore } from './idempotency';
+import { AuthService, AuthResult, PublicUser, createAuthService, createInMemoryAuthStore } from './auth';
+import {
+  Order,
+  OrderStatus,
+  OrderStore,
+  ShippingAddress,
+  createInMemoryOrderStore,
+  createOrder,
+  transitionOrder,
+  isPaid,
+  isSupplierVisible,
+  ADMIN_ORDER_STATUSES,
+} from './orders';
+import { SupplierNotifier, createLogSupplierNotifier } from './supplierNotifier';
+import { RateLimiter, DropAction, ClientIdentity, SignedInClient, createRateLimiter } from './rateLimiter';
+import { AbuseMonitor, AbuseFlag, AbuseFlagStatus, createAbuseMonitor } from './abuseMonitor';
+import {
+  ApiError,
+  productNotFound,
+  badRequest,
+  unauthorized,
+  emailTaken,
+  dropAlreadyExists,
+  dropHasActivity,
+  orderNotFound,
+  userNotFound,
+  invalidOrderTransition,
+  rateLimited,
+  accountBlocked,
+  abuseFlagNotFound,
+} from './apiErrors';
+import { validateCatalogueEntry, formatConfigError, isImageUrl } from './dropConfigValidator';
+import { DropAnalytics, AnalyticsSummary, analyzeDrop, summarizeAnalytics } from './analytics';
+import { HistoryEntry, HistoryPage, buildAccountHistory, paginateHistory, historyToCsv } from './accountHistory';
+import { catalogue, toDropConfig } from '../config/products';
+import { CatalogueEntry } from '../types';
 
-// Simulate a database
-const db: Map<string, DropState> = new Map();
-const configs: Map<string, DropConfig> = new Map();
+// Drops live in a repository; in-memory until a persistent one is plugged in.
+let repository: DropRepository = createInMemoryDropRepository();
 
-// Initialize DB from TS config
-Object.values(productsData).forEach((prod) => {
-  const config = prod as DropConfig;
-  configs.set(config.productId, config);
-  db.set(config.productId, initDrop(config));
+// The catalogue is validated on load (DropConfigError) before any drop is initialised.
+// Drops the store already has keep their stored config, so admin edits survive restarts.
+const seedRepository = () => {
+  catalogue.forEach((entry) => {
+    const stored = repository.getConfig(entry.productId);
+    if (!stored) {
+      repository.upsertConfig(toDropConfig(entry), entry.display);
+    } else if (!repository.getDisplay(entry.productId)) {
+      repository.upsertConfig(stored, entry.display);
+    }
+  });
+};
+
+seedRepository();
+
+/**
+ * Swaps the backing store (e.g. a file-backed repository on a dev box).
+ * Drops from the product config that the store doesn't know yet are added.
+ */
+export const setRepository = (repo: DropRepository) => {
+  repository = repo;
+  seedRepository();
+};
+
+// Viewing fees and purchases are paid from wallets; offline fake provider by default.
+let wallet: WalletService = createWalletService(createInMemoryWalletStore(), createFakePaymentProvider());
+
+/**
+ * Swaps the wallet service (e.g. a file-backed store or a real payment provider).
+ */
+export const setWalletService = (service: WalletService) => {
+  wallet = service;
+};
+
+// Accounts and sessions; in-memory until a persistent store is plugged in.
+let auth: AuthService = createAuthService(createInMemoryAuthStore());
+
+/**
+ * Swaps the auth service (e.g. a file-backed store or a different session TTL).
+ */
+export const setAuthService = (service: AuthService) => {
+  auth = service;
+};
+
+// Orders opened by purchases; in-memory until a persistent store is plugged in.
+let orders: OrderStore = createInMemoryOrderStore();
+
+/**
+ * Swaps the order store (e.g. a file-backed store on a dev box).
+ */
+export const setOrderStore = (store: OrderStore) => {
+  orders = store;
+};
+
+// Suppliers are told about paid orders and every change after that.
+let supplierNotifier: SupplierNotifier = createLogSupplierNotifier();
+
+/**
+ * Swaps the supplier notification hook (e.g. a webhook).
+ */
+export const setSupplierNotifier = (notifier: SupplierNotifier) => {
+  supplierNotifier = notifier;
+};
+
+// Per user / IP / device limits on view, cancel and buy calls.
+let rateLimiter: RateLimiter = createRateLimiter();
+
+/**
+ * Swaps the rate limiter (e.g. different limits per deployment).
+ */
+export const setRateLimiter = (limiter: RateLimiter) => {
+  rateLimiter = limiter;
+};
+
+// Flags suspicious client activity for admin review.
+let abuseMonitor: AbuseMonitor = createAbuseMonitor();
+
+/**
+ * Swaps the abuse monitor (e.g. different thresholds).
+ */
+export const setAbuseMonitor = (monitor: AbuseMonitor) => {
+  abuseMonitor = monitor;
+};
+
+// Results of keyed POST /view and POST /buy calls, for safe client retries.
+let idempotencyStore: IdempotencyStore<ViewEventResult | BuyResult> = createIdempotencyStore();
+
+/**
+ * Swaps the idempotency store (e.g. to change the key retention window).
+ */
+export const setIdempotencyStore = (store: IdempotencyStore<ViewEventResult | BuyResult>) => {
+  idempotencyStore = store;
+};
+
+/**
+ * Runs `action` once per key. Keys are scoped per operation and user, and a key
+ * replayed for a different product is rejected rather than answered.
+ */
+const runIdempotent = <T extends ViewEventResult | BuyResult>(
+  scope: string,
+  key: string | undefined,
+  productId: string,
+  action: () => T
+): T => {
+  if (!key) return action();
+
+  const storeKey = `${scope}:${key}`;
+  const previous = idempotencyStore.get(storeKey);
+  if (previous) {
+    if (previous.fingerprint !== productId) {
+      throw badRequest(`Idempotency key ${key} was already used for a different request.`);
+    }
+    return previous.result as T;
+  }
+
+  const result = action();
+  idempotencyStore.set(storeKey, productId, result);
+  return result;
+};
+
+// --- Live Updates ---
+
+export interface DropUpdate {
+  productId: string;
+  events: DropEvent[];
+  state: DropState;
+}
+
+export type DropListener = (update: DropUpdate) => void;
+
+const listeners: Map<string, Set<DropListener>> = new Map();
+
+/**
+ * Registers a listener for every change to a drop.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToDrop = (productId: string, listener: DropListener): (() => void) => {
+  if (!listeners.has(productId)) listeners.set(productId, new Set());
+  listeners.get(productId)!.add(listener);
+  return () => {
+    listeners.get(productId)?.delete(listener);
+  };
+};
+
+const publish = (update: DropUpdate) => {
+  listeners.get(update.productId)?.forEach((listener) => {
+    try {
+      listener(update);
+    } catch (err) {
+      console.error(`Drop listener failed for ${update.productId}`, err);
+    }
+  });
+};
+
+/**
+ * A drop update as one viewer may see it, or the public without `viewerId`.
+ */
+export const toViewerUpdate = (update: DropUpdate, viewerId?: string): { events: DropEvent[]; state: ViewerDropState } => ({
+  events: toViewerEvents(update.events, viewerId),
+  state: toViewerState(update.state, loadDrop(update.productId).config, viewerId),
 });
 
+/**
+ * Persists the outcome of an engine call and notifies subscribers.
+ * `expectedVersion` is the version the call read; a concurrent write in
+ * between makes the save throw a VERSION_CONFLICT ApiError.
+ */
+const record = (productId: string, state: DropState, events: DropEvent[], expectedVersion: number) => {
+  repository.save(productId, state, events, expectedVersion);
+  if (events.length > 0) {
+    publish({ productId, events, state });
+  }
+};
+
+// Read-modify-write attempts before a version conflict is surfaced as HTTP 409
+const MAX_WRITE_ATTEMPTS = 5;
+
+/**
+ * Re-runs a read-modify-write when another writer got in first.
+ * `action` must re-read the drop on every attempt.
+ */
+const retryOnConflict = <T>(action: () => T): T => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return action();
+    } catch (err) {
+      const isConflict = err instanceof ApiError && err.code === 'VERSION_CONFLICT';
+      if (!isConflict || attempt >= MAX_WRITE_ATTEMPTS) throw err;
+    }
+  }
+};
+
+const loadDrop = (productId: string): { state: DropState; config: DropConfig } => {
+  const state = repository.getState(productId);
+  const config = repository.getConfig(productId);
+
+  if (!state || !config) {
+    throw productNotFound(productId);
+  }
+  return { state, config };
+};
+
 // --- API Endpoints ---
 
 /**
  * GET /status/:productId
+ * The drop as `viewerId` may see it (see toViewerState); the public view
+ * when no one is signed in.
  */
-export const getStatus = (productId: string): DropState => {
-  const state = db.get(productId);
-  if (!state) throw new Error(`Product ${productId} not found`);
-  return { ...state }; // Return copy
+export const getStatus = (productId: string, viewerId?: string): ViewerDropState => {
+  const { state, config } = loadDrop(productId);
+  return toViewerState(state, config, viewerId);
+};
+
+/**
+ * Shows a view or purchase result as its caller may see it.
+ */
+const forViewer = <T extends { state: DropState; events: DropEvent[] }>(
+  productId: string,
+  result: T,
+  viewerId: string
+): Omit<T, 'state'> & { state: ViewerDropState } => ({
+  ...result,
+  state: toViewerState(result.state, loadDrop(productId).config, viewerId),
+  events: toViewerEvents(result.events, viewerId),
+});
+
+/**
+ * GET /admin/drops/:productId/events
+ * Returns the drop's audit trail, oldest first.
+ */
+export const getEvents = (productId: string): DropEvent[] => {
+  const events = repository.getEvents(productId);
+  if (!events) throw productNotFound(productId);
+  return [...events];
 };
 
+const insufficientFundsMessage = (amount: Money, balance: WalletBalance) =>
+  `Insufficient funds: ${amount} ${balance.currency} cents needed, ${balance.available} available.`;
+
+/** A view result as the viewer is sent it: the new price only if they got the lock. */
+export interface ViewerViewResult extends Omit<ViewEventResult, 'newPrice' | 'state'> {
+  newPrice: Money | null;
+  state: ViewerDropState;
+}
+
 /**
  * POST /view
  * Attempts to view (drop price) or join queue.
+ * The viewing fee is held on the viewer's wallet before the view is recorded and
+ * captured afterwards; if the wallet can't cover it nothing is recorded.
+ * `options.tier` must come from trusted account data, never from the request body.
+ * Replaying `idempotencyKey` returns the original result without charging again.
  */
-export const postView = (productId: string, viewerId: string): ViewEventResult => {
-  const state = db.get(productId);
-  const config = configs.get(productId);
+export const postView = (
+  productId: string,
+  viewerId: string,
+  options: ViewOptions = {},
+  idempotencyKey?: string
+): ViewerViewResult => {
+  const result = runIdempotent(`view:${viewerId}`, idempotencyKey, productId, () => applyPaidView(productId, viewerId, options));
+  const shown = forViewer(productId, result, viewerId);
+  return { ...shown, newPrice: shown.state.currentPrice };
+};
 
-  if (!state || !config) {
-    throw new Error(`Product ${productId} not found`);
+const applyPaidView = (productId: string, viewerId: string, options: ViewOptions): ViewEventResult => retryOnConflict(() => {
+  const { state, config } = loadDrop(productId);
+
+  const result = applyView(state, config, viewerId, options);
+
+  if (result.feeCharged === 0) {
+    // Queue updates and sweeps are free; always record them
+    record(productId, result.state, result.events, state.version);
+    return result;
+  }
+
+  const hold = wallet.placeHold(viewerId, result.feeCharged, result.currency, { productId, reference: 'VIEW_FEE' });
+  if (!hold.success) {
+    return {
+      success: false,
+      status: 'INSUFFICIENT_FUNDS',
+      dropAmount: ZERO,
+      newPrice: state.currentPrice,
+      currency: state.currency,
+      feeCharged: ZERO,
+      state,
+      events: [],
+      error: insufficientFundsMessage(result.feeCharged, hold.balance),
+    };
   }
 
-  const result = applyView(state, config, viewerId);
-  
-  // Always update DB with new state (which might include queue updates)
-  db.set(productId, result.state);
+  try {
+    record(productId, result.state, result.events, state.version);
+  } catch (err) {
+    wallet.releaseHold(hold.hold!);
+    throw err;
+  }
+  wallet.captureHold(hold.hold!);
 
   return result;
-};
+});
 
 /**
  * POST /cancel
  * Releases the lock if held by viewerId.
  */
-export const postCancel = (productId: string, viewerId: string): DropState => {
-    const state = db.get(productId);
-    if (!state) throw new Error(`Product ${productId} not found`);
+export const postCancel = (productId: string, viewerId: string): ViewerDropState => retryOnConflict(() => {
+    const { state, config } = loadDrop(productId);
     
-    const newState = releaseLock(state, viewerId);
-    db.set(productId, newState);
-    return newState;
+    const result = releaseLock(state, viewerId);
+    // Hand the freed lock to the queue head straight away
+    const handOff = sweepDrop(result.state, config);
+    record(productId, handOff.state, [...result.events, ...handOff.events], state.version);
+    return toViewerState(handOff.state, config, viewerId);
+});
+
+/** A purchase plus the order it opened (also set when payment failed and the order was cancelled). */
+export interface BuyResult extends PurchaseResult {
+  order?: Order;
 }
 
+/** A purchase result as the buyer is sent it. */
+export interface ViewerBuyResult extends Omit<BuyResult, 'state'> {
+  state: ViewerDropState;
+}
+
+/**
+ * Applies an order status change, saves it and tells the supplier.
+ * No money moves here; see refundOrder.
+ */
+const moveOrder = (order: Order, to: OrderStatus, details: { note?: string; trackingNumber?: string } = {}): Order => {
+  const result = transitionOrder(order, to, details);
+  if (!result.success) throw invalidOrderTransition(result.error!);
+
+  const updated = result.order;
+  orders.save(updated);
+
+  if (isSupplierVisible(updated)) {
+    Promise.resolve()
+      .then(() => supplierNotifier.notify({ supplierId: updated.supplierId, orderId: updated.id, status: to, order: updated }))
+      .catch(err => console.error(`Supplier notification failed for order ${updated.id}`, err));
+  }
+  return updated;
+};
+
+/**
+ * Rolls back the buyer's held unit, if it is still held, so it goes back to
+ * them or to the queue.
+ */
+const rollBackPendingPurchase = (productId: string, buyerId: string) => retryOnConflict(() => {
+  const { state, config } = loadDrop(productId);
+  const result = rollbackPurchase(state, config, buyerId);
+  if (result.rolledBack) {
+    record(productId, result.state, result.events, state.version);
+  }
+  return result;
+});
+
 /**
  * POST /buy
+ * Two-phase purchase. First the unit is held for the buyer (PURCHASE_PENDING)
+ * and an order opened in PENDING_PAYMENT; then the sold price is held on the
+ * buyer's wallet. If that fails, the purchase is rolled back: the buyer gets
+ * their lock back or it passes to the next viewer in the queue, and the order
+ * is cancelled. Otherwise the sale is committed, the hold captured and the
+ * order marked PAID.
+ * Replaying `idempotencyKey` returns the original result without charging again.
  */
-export const postBuy = (productId: string, buyerId: string): PurchaseResult => {
-  const state = db.get(productId);
-  const config = configs.get(productId);
+export const postBuy = (
+  productId: string,
+  buyerId: string,
+  shippingAddress: ShippingAddress,
+  idempotencyKey?: string
+): ViewerBuyResult => forViewer(
+  productId,
+  runIdempotent(`buy:${buyerId}`, idempotencyKey, productId, () => applyPaidPurchase(productId, buyerId, shippingAddress)),
+  buyerId
+);
 
-  if (!state || !config) {
-    throw new Error(`Product ${productId} not found`);
+const applyPaidPurchase = (productId: string, buyerId: string, shippingAddress: ShippingAddress): BuyResult => {
+  const pending = retryOnConflict(() => {
+    const { state, config } = loadDrop(productId);
+    const result = beginPurchase(state, config, buyerId);
+    if (result.success) {
+      record(productId, result.state, result.events, state.version);
+    }
+    return result;
+  });
+
+  if (!pending.success) {
+    return pending;
+  }
+
+  const { config } = loadDrop(productId);
+  const order = createOrder({
+    productId,
+    productName: config.name,
+    supplierId: config.supplierId,
+    buyerId,
+    soldPrice: pending.soldPrice,
+    currency: pending.currency,
+    shippingAddress,
+  });
+  orders.save(order);
+
+  const hold = wallet.placeHold(buyerId, pending.soldPrice, pending.currency, { productId, reference: 'PURCHASE' });
+  if (!hold.success) {
+    const rollback = rollBackPendingPurchase(productId, buyerId);
+    return {
+      success: false,
+      status: 'INSUFFICIENT_FUNDS',
+      soldPrice: ZERO,
+      currency: pending.currency,
+      totalSupplierRevenue: ZERO,
+      totalQomoRevenue: ZERO,
+      state: rollback.state,
+      events: rollback.events,
+      error: insufficientFundsMessage(pending.soldPrice, hold.balance),
+      order: moveOrder(order, 'CANCELLED', { note: 'Payment failed: insufficient funds.' }),
+    };
+  }
+
+  let purchase: PurchaseResult;
+  try {
+    purchase = retryOnConflict(() => {
+      const { state, config } = loadDrop(productId);
+      const result = commitPurchase(state, config, buyerId);
+      if (!result.success) {
+        return result;
+      }
+      // With stock left, offer the freed lock to the queue straight away
+      const handOff = sweepDrop(result.state, config);
+      const committed: PurchaseResult = { ...result, state: handOff.state, events: [...result.events, ...handOff.events] };
+      record(productId, committed.state, committed.events, state.version);
+      return committed;
+    });
+  } catch (err) {
+    wallet.releaseHold(hold.hold!);
+    moveOrder(order, 'CANCELLED', { note: 'The drop changed before payment completed.' });
+    // Don't leave the unit held until the payment window runs out
+    rollBackPendingPurchase(productId, buyerId);
+    throw err;
+  }
+
+  if (!purchase.success) {
+    wallet.releaseHold(hold.hold!);
+    return { ...purchase, order: moveOrder(order, 'CANCELLED', { note: purchase.error }) };
+  }
+  wallet.captureHold(hold.hold!);
+
+  return { ...purchase, events: [...pending.events, ...purchase.events], order: moveOrder(order, 'PAID') };
+};
+
+/**
+ * GET /orders
+ * The signed-in user's orders, newest first.
+ */
+export const getOrders = (buyerId: string): Order[] =>
+  orders.list().filter(order => order.buyerId === buyerId).reverse();
+
+/**
+ * GET /admin/orders
+ * Every order, newest first.
+ */
+export const getAdminOrders = (): Order[] => orders.list().reverse();
+
+/**
+ * Pays back a paid order's buyer: the sale is marked refunded on the drop
+ * (SALE_REFUNDED, which takes it off the supplier's proceeds) and the sold
+ * price is credited to the buyer's wallet.
+ */
+const refundOrder = (order: Order, reason: 'CANCELLED' | 'RETURNED') => {
+  retryOnConflict(() => {
+    const { state } = loadDrop(order.productId);
+    const result = refundSale(state, order.buyerId, order.soldPrice, order.id, reason);
+    if (!result.refunded) {
+      throw invalidOrderTransition(`Order ${order.id} has no sale on ${order.productId} left to refund.`);
+    }
+    record(order.productId, result.state, result.events, state.version);
+  });
+  wallet.credit(order.buyerId, order.soldPrice, order.currency, 'REFUND', { productId: order.productId, reference: order.id });
+};
+
+/**
+ * POST /admin/orders/:orderId/status
+ * Moves an order along its fulfilment (ship, deliver, cancel, return). PAID
+ * is only set by the purchase. Cancelling or returning a paid order refunds it.
+ */
+export const updateOrderStatus = (
+  orderId: string,
+  status: OrderStatus,
+  details: { note?: string; trackingNumber?: string } = {}
+): Order => {
+  const order = orders.get(orderId);
+  if (!order) throw orderNotFound(orderId);
+  if (!ADMIN_ORDER_STATUSES.includes(status)) {
+    throw badRequest(`Orders can only be moved to ${ADMIN_ORDER_STATUSES.join(', ')}.`);
+  }
+
+  const check = transitionOrder(order, status, details);
+  if (!check.success) throw invalidOrderTransition(check.error!);
+  if (isPaid(order) && (status === 'CANCELLED' || status === 'RETURNED')) {
+    refundOrder(order, status);
+  }
+  return moveOrder(order, status, details);
+};
+
+/**
+ * Gate for POST /view, /cancel and /buy, run before the call itself: rejects
+ * blocked accounts (403) and clients over a rate limit (429), and feeds the
+ * call to the abuse heuristics. Each user only ever holds one queue slot per
+ * drop (the engine won't queue a viewer twice); the heuristics look for one
+ * client working several accounts.
+ */
+export const checkClientActivity = (
+  action: DropAction,
+  productId: string,
+  client: SignedInClient,
+  now: number = Date.now()
+) => {
+  if (auth.isBlocked(client.userId)) throw accountBlocked();
+
+  const limit = rateLimiter.check(action, client, now);
+  if (!limit.allowed) throw rateLimited(limit.retryAfterMs!);
+
+  abuseMonitor.record({ action, productId, client }, now);
+};
+
+/**
+ * Gate for POST /auth/signup and /auth/login: rejects clients over the AUTH
+ * rate limit (429), which bounds password guessing and scrypt work per IP
+ * and device.
+ */
+export const checkAuthAttempt = (client: ClientIdentity, now: number = Date.now()) => {
+  const limit = rateLimiter.check('AUTH', client, now);
+  if (!limit.allowed) throw rateLimited(limit.retryAfterMs!);
+};
+
+/**
+ * GET /admin/abuse-flags
+ * Flags raised by the abuse heuristics, most recently active first.
+ */
+export const getAbuseFlags = (status?: AbuseFlagStatus): AbuseFlag[] => abuseMonitor.list(status);
+
+/**
+ * Takes blocked users out of every drop: their locks are released and their
+ * queue places dropped, and each freed lock is offered to the next viewer.
+ */
+const evictFromDrops = (userIds: string[], now: number) => {
+  repository.listProductIds().forEach(productId => retryOnConflict(() => {
+    const { state, config } = loadDrop(productId);
+    const evicted = userIds.reduce(
+      (acc, userId) => {
+        const result = evictViewer(acc.state, userId, now);
+        return { state: result.state, events: [...acc.events, ...result.events] };
+      },
+      { state, events: [] as DropEvent[] }
+    );
+    if (evicted.events.length === 0) return;
+
+    const handOff = sweepDrop(evicted.state, config, now);
+    record(productId, handOff.state, [...evicted.events, ...handOff.events], state.version);
+  }));
+};
+
+/**
+ * POST /admin/abuse-flags/:flagId/review
+ * Dismisses a flag, or confirms it: the accounts it names are blocked and
+ * lose any lock or queue place they hold. Blocks are stored on the accounts,
+ * so they outlast the flag (flags are kept in memory).
+ */
+export const reviewAbuseFlag = (flagId: string, status: 'DISMISSED' | 'CONFIRMED', note?: string): AbuseFlag => {
+  const flag = abuseMonitor.review(flagId, status, note);
+  if (!flag) throw abuseFlagNotFound(flagId);
+  if (status === 'CONFIRMED') {
+    flag.userIds.forEach(userId => auth.block(userId, flag.reviewedAt));
+    evictFromDrops(flag.userIds, flag.reviewedAt!);
   }
+  return flag;
+};
+
+/**
+ * GET /wallet (the signed-in user's wallet)
+ */
+export const getWallet = (userId: string): { userId: string; balances: WalletBalance[]; entries: WalletEntry[] } => ({
+  userId,
+  balances: wallet.getBalances(userId),
+  entries: wallet.getLedger(userId),
+});
+
+/**
+ * POST /wallet/topup
+ * Charges the payment provider and credits the wallet.
+ */
+export const postTopUp = (
+  userId: string,
+  amount: Money,
+  currency: CurrencyCode,
+  paymentToken: string
+): Promise<TopUpResult> => wallet.topUp(userId, amount, currency, paymentToken);
 
-  const result = applyPurchase(state, config, buyerId);
+export interface Session {
+  user: PublicUser;
+  token: string;                 // send as `Authorization: Bearer <token>`
+  expiresAt: number;
+}
 
+const toSession = (result: AuthResult): Session => {
   if (result.success) {
-    db.set(productId, result.state);
+    return { user: result.user!, token: result.token!, expiresAt: result.expiresAt! };
+  }
+  switch (result.error) {
+    case 'EMAIL_TAKEN': throw emailTaken();
+    case 'INVALID_CREDENTIALS': throw unauthorized(result.message);
+    default: throw badRequest(result.message!);
+  }
+};
+
+/**
+ * POST /auth/signup
+ * Creates an account and signs it in.
+ */
+export const postSignup = async (email: string, password: string): Promise<Session> =>
+  toSession(await auth.signup(email, password));
+
+/**
+ * POST /auth/login
+ */
+export const postLogin = async (email: string, password: string): Promise<Session> =>
+  toSession(await auth.login(email, password));
+
+/**
+ * POST /auth/logout
+ * Revokes the session; the token stops working immediately.
+ */
+export const postLogout = (token: string): void => {
+  auth.logout(token);
+};
+
+/**
+ * Resolves a bearer token to its signed-in user. The server derives viewer
+ * and buyer IDs from this, never from the request body.
+ */
+export const getSessionUser = (token: string): PublicUser | undefined =>
+  auth.authenticate(token);
+
+/**
+ * POST /admin/users/:userId/tier
+ * Sets the user's queue priority tier; it applies to queue entries they make
+ * from now on, on drops using the PRIORITY policy.
+ */
+export const setUserTier = (userId: string, tier: number): PublicUser => {
+  const user = auth.setTier(userId, tier);
+  if (!user) throw userNotFound(userId);
+  return user;
+};
+
+const loadAccountHistory = (userId: string): HistoryEntry[] =>
+  buildAccountHistory(userId, repository.listProductIds().map((productId) => {
+    const { state, config } = loadDrop(productId);
+    return { config, state, events: getEvents(productId) };
+  }));
+
+/**
+ * GET /account/history
+ * The user's views, queue entries, purchases and refunds, newest first.
+ */
+export const getAccountHistory = (userId: string, offset: number, limit: number): HistoryPage =>
+  paginateHistory(loadAccountHistory(userId), offset, limit);
+
+/**
+ * GET /account/history.csv
+ * The user's whole history as CSV.
+ */
+export const getAccountHistoryCsv = (userId: string): string =>
+  historyToCsv(loadAccountHistory(userId));
+
+/**
+ * GET /drops
+ * The storefront catalogue: every drop that has display copy, in creation order.
+ */
+export const getCatalogue = (): CatalogueEntry[] =>
+  repository.listProductIds()
+    .filter(productId => repository.getDisplay(productId))
+    .map(productId => ({ ...repository.getConfig(productId)!, display: repository.getDisplay(productId)! }));
+
+/**
+ * A drop's full state, for admin views and scripts; viewers get getStatus.
+ */
+export const getDropState = (productId: string): DropState => {
+  const { state } = loadDrop(productId);
+  return { ...state }; // Return copy
+};
+
+export interface AdminDrop {
+  entry: CatalogueEntry;
+  state: DropState;
+}
+
+/**
+ * GET /admin/drops
+ * Every drop with its live state (price, queue, lock holder, revenue).
+ */
+export const getAdminDrops = (): AdminDrop[] =>
+  getCatalogue().map(entry => ({ entry, state: getDropState(entry.productId) }));
+
+/**
+ * GET /admin/analytics
+ * Per-drop performance metrics from the event logs, plus totals.
+ */
+export const getAnalytics = (): { summary: AnalyticsSummary; drops: DropAnalytics[] } => {
+  const drops = repository.listProductIds().map((productId) => {
+    const { state, config } = loadDrop(productId);
+    return analyzeDrop({ config, state, events: getEvents(productId) });
+  });
+  return { summary: summarizeAnalytics(drops), drops };
+};
+
+const validateEntry = (raw: unknown, productId: string): CatalogueEntry => {
+  const result = validateCatalogueEntry(raw, productId);
+  if (!result.valid) {
+    throw badRequest(`Invalid drop config:\n${result.errors.map(formatConfigError).join('\n')}`);
   }
+  return raw as CatalogueEntry;
+};
+
+// initDrop reads these, so changing them would break the replay of existing events
+const INITIAL_STATE_FIELDS: (keyof DropConfig)[] = ['currency', 'basePrice', 'quantity', 'startsAt'];
+
+/**
+ * POST /admin/drops
+ * Registers a new drop from a validated catalogue entry.
+ */
+export const createDrop = (raw: unknown): AdminDrop => {
+  const { productId } = (raw ?? {}) as Partial<CatalogueEntry>;
+  const entry = validateEntry(raw, typeof productId === 'string' ? productId : '?');
+  if (repository.getConfig(entry.productId)) throw dropAlreadyExists(entry.productId);
+
+  repository.upsertConfig(toDropConfig(entry), entry.display);
+  return { entry, state: getDropState(entry.productId) };
+};
+
+/**
+ * POST /admin/drops/:productId
+ * Replaces a drop's config and display. Once a drop has events since its last
+ * reset, the fields its initial state is built from are frozen until it is
+ * reset again; otherwise a change to them resets it under the new config.
+ */
+export const updateDrop = (productId: string, raw: unknown): AdminDrop => {
+  const entry = validateEntry(raw, productId);
+  const { config } = loadDrop(productId);
+  const hasEvents = sinceLastReset(getEvents(productId)).length > 0;
+
+  const frozen = INITIAL_STATE_FIELDS.filter(field => config[field] !== entry[field]);
+  if (hasEvents && frozen.length > 0) throw dropHasActivity(productId, frozen);
+
+  const imageUrl = entry.display.imageUrl ?? repository.getDisplay(productId)?.imageUrl;
+  repository.upsertConfig(toDropConfig(entry), { ...entry.display, imageUrl });
+  if (frozen.length > 0) resetDrop(productId);
+  return { entry: { ...entry, display: repository.getDisplay(productId)! }, state: getDropState(productId) };
+};
+
+/**
+ * POST /admin/drops/:productId/image
+ * Sets the drop's storefront image (an uploaded data URL or a hosted image).
+ */
+export const setDropImage = (productId: string, imageUrl: string): CatalogueEntry => {
+  const { config } = loadDrop(productId);
+  if (!isImageUrl(imageUrl)) throw badRequest('"imageUrl" must be an https:// or data:image/ URL.');
+
+  repository.upsertConfig(config, { ...repository.getDisplay(productId)!, imageUrl });
+  return { ...config, display: repository.getDisplay(productId)! };
+};
+
+/**
+ * POST /admin/drops/:productId/start
+ * Opens a scheduled drop now.
+ */
+export const startDrop = (productId: string): LifecycleResult => retryOnConflict(() => {
+  const { state } = loadDrop(productId);
+  const result = applyStart(state);
+  if (result.changed) record(productId, result.state, result.events, state.version);
+  return result;
+});
+
+/**
+ * POST /admin/drops/:productId/pause
+ */
+export const pauseDrop = (productId: string): LifecycleResult => retryOnConflict(() => {
+  const { state } = loadDrop(productId);
+  const result = applyPause(state);
+  if (result.changed) record(productId, result.state, result.events, state.version);
+  return result;
+});
+
+/**
+ * POST /admin/drops/:productId/resume
+ */
+export const resumeDrop = (productId: string): LifecycleResult => retryOnConflict(() => {
+  const { state, config } = loadDrop(productId);
+  const result = applyResume(state, config);
+  if (result.changed) record(productId, result.state, result.events, state.version);
+  return result;
+});
+
+/**
+ * Ends an unsold drop and pays its refunds into the viewers' wallets.
+ */
+const finishDrop = (productId: string, reason: DropEndReason, now: number): DropEndResult => {
+  const result = retryOnConflict(() => {
+    const { state, config } = loadDrop(productId);
+    const ended = endDrop(state, config, getEvents(productId), reason, now);
+    if (ended.ended) {
+      record(productId, ended.state, ended.events, state.version);
+    }
+    return ended;
+  });
 
+  result.refunds.forEach((refund) => {
+    wallet.credit(refund.viewerId, refund.amount, result.state.currency, refund.kind, {
+      productId,
+      reference: 'DROP_ENDED',
+    });
+  });
   return result;
 };
 
+/**
+ * POST /admin/drops/:productId/cancel
+ * Ends an unsold drop now; viewers are refunded per its refund policy.
+ */
+export const cancelDrop = (productId: string): DropEndResult =>
+  finishDrop(productId, 'CANCELLED', Date.now());
+
+/**
+ * Expires locks, evicts missed claims, hands locks to queue heads and ends
+ * drops past their end time, across all drops.
+ * Returns the earliest upcoming deadline (ms epoch), or null if none is pending.
+ */
+export const sweepDrops = (now: number = Date.now()): number | null => {
+  let nextAt: number | null = null;
+
+  repository.listProductIds().forEach((productId) => {
+    const swept = retryOnConflict(() => {
+      const { state, config } = loadDrop(productId);
+      const result = sweepDrop(state, config, now);
+      if (result.events.length > 0) {
+        record(productId, result.state, result.events, state.version);
+      }
+      return { state: result.state, config };
+    });
+
+    const final = isDropExpired(swept.state, swept.config, now)
+      ? finishDrop(productId, 'EXPIRED', now).state
+      : swept.state;
+
+    const deadline = nextSweepAt(final, swept.config);
+    if (deadline !== null && (nextAt === null || deadline < nextAt)) {
+      nextAt = deadline;
+    }
+  });
+
+  return nextAt;
+};
+
+/**
+ * Rebuilds a drop from its event log and checks it against the live state.
+ * Used by finance/support to confirm the audit trail is complete.
+ */
+export const verifyLedger = (productId: string): boolean => {
+  const { state, config } = loadDrop(productId);
+
+  const replayed = replayDrop(config, getEvents(productId));
+  return JSON.stringify(replayed) === JSON.stringify(state);
+};
+
+/**
+ * POST /admin/drops/:productId/reset
+ * Puts a drop back to its initial state. The event log is kept, so settlement
+ * and account history still see what happened before the reset.
+ * Fees already charged are not refunded; cancel the drop first for that.
+ */
+export const resetDrop = (productId: string): DropState => retryOnConflict(() => {
+  const { state, config } = loadDrop(productId);
+  const result = applyReset(state, config);
+  record(productId, result.state, result.events, state.version);
+  return { ...result.state };
+});
+
 /**
  * Helper to reset the DB for simulation/testing
  */
 export const resetDb = () => {
-  Object.values(productsData).forEach((prod) => {
-    const config = prod as DropConfig;
-    db.set(config.productId, initDrop(config));
-  });
-};
\ No newline at end of file
+  repository.listProductIds().forEach(resetDrop);
+};
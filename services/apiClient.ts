@@ -0,0 +1,242 @@
+/**
+ * Browser client for the Qomo drop API (server/).
+ * The React app talks to drops only through this module.
+ */
+import {
+  AbuseFlagResponse,
+  AbuseFlagsResponse,
+  AbuseReviewRequest,
+  AdminDropResponse,
+  AdminDropsResponse,
+  AnalyticsResponse,
+  BuyRequest,
+  BuyResponse,
+  CancelRequest,
+  CancelDropResponse,
+  CancelResponse,
+  CatalogueResponse,
+  CredentialsRequest,
+  DropEntryRequest,
+  DropImageRequest,
+  DropImageResponse,
+  DropStreamMessage,
+  ErrorResponse,
+  EventsResponse,
+  HistoryResponse,
+  LifecycleResponse,
+  LogoutResponse,
+  OrderResponse,
+  OrderStatusRequest,
+  OrdersResponse,
+  MeResponse,
+  PURCHASE_STATUS_CODES,
+  ResetDropResponse,
+  SessionResponse,
+  StatusResponse,
+  TopUpRequest,
+  UserResponse,
+  UserTierRequest,
+  TopUpResponse,
+  VIEW_STATUS_CODES,
+  ViewRequest,
+  ViewResponse,
+  WalletResponse,
+} from './apiSchema';
+import { Money, CurrencyCode } from './money';
+import { ShippingAddress } from './orders';
+
+const API_BASE_URL = process.env.QOMO_API_URL || '/api';
+
+export class ApiClientError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'ApiClientError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// Session token from signup/login; identifies the viewer, buyer and wallet owner
+let sessionToken: string | null = null;
+
+export const setSessionToken = (token: string | null) => {
+  sessionToken = token;
+};
+
+// Stable per-browser ID; the server rate-limits and watches for many accounts per device
+let deviceId: string | null = null;
+
+export const setDeviceId = (id: string | null) => {
+  deviceId = id;
+};
+
+/**
+ * Sends a request and parses the JSON body.
+ * `resultStatuses` lists non-2xx statuses whose body is still a normal result.
+ * `adminToken` is sent as a bearer token for /admin routes, in place of the session token.
+ */
+const request = async <T>(
+  method: 'GET' | 'POST',
+  path: string,
+  body?: unknown,
+  resultStatuses: number[] = [],
+  adminToken?: string
+): Promise<T> => {
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  const token = adminToken || sessionToken;
+  if (token) headers.Authorization = `Bearer ${token}`;
+  if (deviceId) headers['X-Device-Id'] = deviceId;
+
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method,
+    headers,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok && !resultStatuses.includes(response.status)) {
+    throw toClientError(response.status, data);
+  }
+  return data as T;
+};
+
+const toClientError = (status: number, data: unknown) => {
+  const error = (data as ErrorResponse | null)?.error;
+  return new ApiClientError(status, error?.code || 'INTERNAL', error?.message || `Request failed with status ${status}`);
+};
+
+/**
+ * GETs a non-JSON body (e.g. a CSV export) as text with the session token.
+ */
+const requestText = async (path: string): Promise<string> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    headers: sessionToken ? { Authorization: `Bearer ${sessionToken}` } : {},
+  });
+  if (!response.ok) {
+    throw toClientError(response.status, await response.json().catch(() => null));
+  }
+  return response.text();
+};
+
+export const signup = (email: string, password: string) =>
+  request<SessionResponse>('POST', '/auth/signup', { email, password } satisfies CredentialsRequest);
+
+export const login = (email: string, password: string) =>
+  request<SessionResponse>('POST', '/auth/login', { email, password } satisfies CredentialsRequest);
+
+export const logout = () =>
+  request<LogoutResponse>('POST', '/auth/logout');
+
+export const getMe = () =>
+  request<MeResponse>('GET', '/auth/me');
+
+export const getStatus = (productId: string) =>
+  request<StatusResponse>('GET', `/status/${encodeURIComponent(productId)}`);
+
+// --- Signed in (the session user is the viewer, buyer and wallet owner) ---
+
+export const postView = (productId: string, idempotencyKey?: string) =>
+  request<ViewResponse>('POST', '/view', { productId, idempotencyKey } satisfies ViewRequest,
+    Object.values(VIEW_STATUS_CODES));
+
+export const postCancel = (productId: string) =>
+  request<CancelResponse>('POST', '/cancel', { productId } satisfies CancelRequest);
+
+export const postBuy = (productId: string, shippingAddress: ShippingAddress, idempotencyKey?: string) =>
+  request<BuyResponse>('POST', '/buy', { productId, shippingAddress, idempotencyKey } satisfies BuyRequest,
+    Object.values(PURCHASE_STATUS_CODES));
+
+export const getOrders = () =>
+  request<OrdersResponse>('GET', '/orders');
+
+export const getWallet = () =>
+  request<WalletResponse>('GET', '/wallet');
+
+export const postTopUp = (amount: Money, currency: CurrencyCode, paymentToken: string) =>
+  request<TopUpResponse>('POST', '/wallet/topup', { amount, currency, paymentToken } satisfies TopUpRequest,
+    [402]);
+
+export const getAccountHistory = (offset: number, limit: number) =>
+  request<HistoryResponse>('GET', `/account/history?offset=${offset}&limit=${limit}`);
+
+export const getAccountHistoryCsv = () =>
+  requestText('/account/history.csv');
+
+export const getCatalogue = () =>
+  request<CatalogueResponse>('GET', '/drops');
+
+// --- Admin (every call needs the server's admin token) ---
+
+const adminDropPath = (productId: string, action?: string) =>
+  `/admin/drops/${encodeURIComponent(productId)}${action ? `/${action}` : ''}`;
+
+export const getAdminDrops = (adminToken: string) =>
+  request<AdminDropsResponse>('GET', '/admin/drops', undefined, [], adminToken);
+
+export const getAnalytics = (adminToken: string) =>
+  request<AnalyticsResponse>('GET', '/admin/analytics', undefined, [], adminToken);
+
+export const getAdminOrders = (adminToken: string) =>
+  request<OrdersResponse>('GET', '/admin/orders', undefined, [], adminToken);
+
+export const updateOrderStatus = (adminToken: string, orderId: string, update: OrderStatusRequest) =>
+  request<OrderResponse>('POST', `/admin/orders/${encodeURIComponent(orderId)}/status`, update, [], adminToken);
+
+export const setUserTier = (adminToken: string, userId: string, tier: number) =>
+  request<UserResponse>('POST', `/admin/users/${encodeURIComponent(userId)}/tier`, { tier } satisfies UserTierRequest, [], adminToken);
+
+export const getAbuseFlags = (adminToken: string, status?: AbuseFlagResponse['status']) =>
+  request<AbuseFlagsResponse>('GET', `/admin/abuse-flags${status ? `?status=${status}` : ''}`, undefined, [], adminToken);
+
+export const reviewAbuseFlag = (adminToken: string, flagId: string, review: AbuseReviewRequest) =>
+  request<AbuseFlagResponse>('POST', `/admin/abuse-flags/${encodeURIComponent(flagId)}/review`, review, [], adminToken);
+
+export const createDrop = (adminToken: string, entry: DropEntryRequest) =>
+  request<AdminDropResponse>('POST', '/admin/drops', entry, [], adminToken);
+
+export const updateDrop = (adminToken: string, entry: DropEntryRequest) =>
+  request<AdminDropResponse>('POST', adminDropPath(entry.productId), entry, [], adminToken);
+
+export const setDropImage = (adminToken: string, productId: string, imageUrl: string) =>
+  request<DropImageResponse>('POST', adminDropPath(productId, 'image'), { imageUrl } satisfies DropImageRequest, [], adminToken);
+
+export const startDrop = (adminToken: string, productId: string) =>
+  request<LifecycleResponse>('POST', adminDropPath(productId, 'start'), undefined, [], adminToken);
+
+export const pauseDrop = (adminToken: string, productId: string) =>
+  request<LifecycleResponse>('POST', adminDropPath(productId, 'pause'), undefined, [], adminToken);
+
+export const resumeDrop = (adminToken: string, productId: string) =>
+  request<LifecycleResponse>('POST', adminDropPath(productId, 'resume'), undefined, [], adminToken);
+
+export const cancelDrop = (adminToken: string, productId: string) =>
+  request<CancelDropResponse>('POST', adminDropPath(productId, 'cancel'), undefined, [], adminToken);
+
+export const resetDrop = (adminToken: string, productId: string) =>
+  request<ResetDropResponse>('POST', adminDropPath(productId, 'reset'), undefined, [], adminToken);
+
+export const getEvents = (adminToken: string, productId: string) =>
+  request<EventsResponse>('GET', adminDropPath(productId, 'events'), undefined, [], adminToken);
+
+/**
+ * Opens the live update stream for a drop (GET /stream/:productId).
+ * EventSource reconnects on its own; each reconnect starts with a fresh SNAPSHOT.
+ * The session token goes in the query string (EventSource can't send headers),
+ * so the stream shows the drop as the signed-in viewer may see it.
+ * Returns a function that closes the stream.
+ */
+export const subscribeToDrop = (
+  productId: string,
+  onMessage: (message: DropStreamMessage) => void
+): (() => void) => {
+  const query = sessionToken ? `?token=${encodeURIComponent(sessionToken)}` : '';
+  const source = new EventSource(`${API_BASE_URL}/stream/${encodeURIComponent(productId)}${query}`);
+  source.onmessage = (event) => {
+    onMessage(JSON.parse(event.data) as DropStreamMessage);
+  };
+  return () => source.close();
+};
@@ -0,0 +1,61 @@
+/**
+ * Errors raised by the API layer. Each carries the HTTP status and a stable
+ * machine-readable code so the server and client agree on failures.
+ */
+
+export type ApiErrorCode = 'BAD_REQUEST' | 'UNAUTHORIZED' | 'FORBIDDEN' | 'NOT_FOUND' | 'CONFLICT' | 'VERSION_CONFLICT' | 'RATE_LIMITED' | 'INTERNAL';
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly retryAfterMs?: number;  // RATE_LIMITED: sent as Retry-After
+
+  constructor(status: number, code: ApiErrorCode, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export const badRequest = (message: string) => new ApiError(400, 'BAD_REQUEST', message);
+
+export const unauthorized = (message: string = 'Admin credentials required.') =>
+  new ApiError(401, 'UNAUTHORIZED', message);
+
+export const productNotFound = (productId: string) =>
+  new ApiError(404, 'NOT_FOUND', `Product ${productId} not found`);
+
+// Its own code, so only lost write races are retried, never business-rule rejections
+export const versionConflict = (productId: string, expectedVersion: number, actualVersion: number) =>
+  new ApiError(409, 'VERSION_CONFLICT', `Drop ${productId} changed concurrently (expected version ${expectedVersion}, found ${actualVersion}). Please retry.`);
+
+export const dropAlreadyExists = (productId: string) =>
+  new ApiError(409, 'CONFLICT', `Drop ${productId} already exists.`);
+
+export const dropHasActivity = (productId: string, fields: string[]) =>
+  new ApiError(409, 'CONFLICT', `Drop ${productId} already has activity; reset it before changing ${fields.join(', ')}.`);
+
+export const signInRequired = () => unauthorized('Sign in to continue.');
+
+export const emailTaken = () =>
+  new ApiError(409, 'CONFLICT', 'An account with that email already exists.');
+
+export const userNotFound = (userId: string) =>
+  new ApiError(404, 'NOT_FOUND', `User ${userId} not found`);
+
+export const orderNotFound = (orderId: string) =>
+  new ApiError(404, 'NOT_FOUND', `Order ${orderId} not found`);
+
+export const invalidOrderTransition = (message: string) =>
+  new ApiError(409, 'CONFLICT', message);
+
+export const rateLimited = (retryAfterMs: number) =>
+  new ApiError(429, 'RATE_LIMITED', `Too many requests. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`, retryAfterMs);
+
+export const accountBlocked = () =>
+  new ApiError(403, 'FORBIDDEN', 'This account has been blocked from drops. Contact support if you think this is a mistake.');
+
+export const abuseFlagNotFound = (flagId: string) =>
+  new ApiError(404, 'NOT_FOUND', `Flag ${flagId} not found`);
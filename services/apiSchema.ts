@@ -0,0 +1,324 @@
+/**
+ * Request/response schemas for the Qomo drop API.
+ * Shared by the Node server (server/) and the browser client (services/apiClient.ts).
+ */
+import { DropEndResult, DropEvent, DropState, LifecycleResult, PurchaseResult, ViewEventResult, ViewerDropState } from './pricingEngine';
+import { WalletBalance, WalletEntry, TopUpResult } from './wallet';
+import { Money, CurrencyCode, isSupportedCurrency } from './money';
+import { ApiErrorCode, badRequest } from './apiErrors';
+import type { AdminDrop, Session, ViewerBuyResult, ViewerViewResult } from './api';
+import { Order, OrderStatus, ShippingAddress, ADMIN_ORDER_STATUSES } from './orders';
+import type { PublicUser } from './auth';
+import type { DropAnalytics, AnalyticsSummary } from './analytics';
+import type { HistoryPage } from './accountHistory';
+import type { AbuseFlag, AbuseFlagStatus } from './abuseMonitor';
+import type { CatalogueEntry } from '../types';
+
+// --- Requests ---
+// Viewer, buyer and wallet owner are the signed-in user (session bearer token).
+
+/** POST /auth/signup and POST /auth/login */
+export interface CredentialsRequest {
+  email: string;
+  password: string;
+}
+
+/** POST /view */
+export interface ViewRequest {
+  productId: string;
+  idempotencyKey?: string;       // client-generated; replays return the original result
+}
+
+/** POST /cancel */
+export interface CancelRequest {
+  productId: string;
+}
+
+/** POST /buy */
+export interface BuyRequest {
+  productId: string;
+  shippingAddress: ShippingAddress;
+  idempotencyKey?: string;       // client-generated; replays return the original result
+}
+
+/** POST /admin/orders/:orderId/status */
+export interface OrderStatusRequest {
+  status: OrderStatus;
+  trackingNumber?: string;
+  note?: string;
+}
+
+/** POST /admin/abuse-flags/:flagId/review */
+export interface AbuseReviewRequest {
+  status: 'DISMISSED' | 'CONFIRMED';   // CONFIRMED blocks the flag's accounts
+  note?: string;
+}
+
+/** POST /admin/users/:userId/tier */
+export interface UserTierRequest {
+  tier: number;                  // non-negative integer; higher is served first under PRIORITY
+}
+
+/** POST /wallet/topup */
+export interface TopUpRequest {
+  amount: Money;                 // minor units
+  currency: CurrencyCode;
+  paymentToken: string;
+}
+
+/** GET /account/history query string */
+export interface HistoryQuery {
+  offset: number;
+  limit: number;                 // 1..MAX_HISTORY_LIMIT
+}
+
+export const DEFAULT_HISTORY_LIMIT = 20;
+export const MAX_HISTORY_LIMIT = 100;
+
+/** GET /admin/abuse-flags query string */
+export interface AbuseFlagsQuery {
+  status?: AbuseFlagStatus;      // all flags when omitted
+}
+
+/** POST /admin/drops and POST /admin/drops/:productId (validated by the API) */
+export type DropEntryRequest = CatalogueEntry;
+
+/** POST /admin/drops/:productId/image */
+export interface DropImageRequest {
+  imageUrl: string;              // data:image/... for uploads, or an https:// URL
+}
+
+// --- Responses ---
+
+export type SessionResponse = Session;           // POST /auth/signup, POST /auth/login
+export type MeResponse = PublicUser;             // GET /auth/me
+export type UserResponse = PublicUser;           // POST /admin/users/:userId/tier
+export type HistoryResponse = HistoryPage;       // GET /account/history
+export type StatusResponse = ViewerDropState;    // GET /status/:productId
+export type EventsResponse = DropEvent[];        // GET /admin/drops/:productId/events
+export type ViewResponse = ViewerViewResult;     // POST /view
+export type CancelResponse = ViewerDropState;    // POST /cancel
+export type BuyResponse = ViewerBuyResult;       // POST /buy
+export type OrdersResponse = Order[];            // GET /orders, GET /admin/orders
+export type OrderResponse = Order;               // POST /admin/orders/:orderId/status
+export type AbuseFlagsResponse = AbuseFlag[];    // GET /admin/abuse-flags
+export type AbuseFlagResponse = AbuseFlag;       // POST /admin/abuse-flags/:flagId/review
+export type TopUpResponse = TopUpResult;         // POST /wallet/topup
+export type CancelDropResponse = DropEndResult;  // POST /admin/drops/:productId/cancel
+export type LifecycleResponse = LifecycleResult; // POST /admin/drops/:productId/start|pause|resume
+export type ResetDropResponse = DropState;       // POST /admin/drops/:productId/reset
+export type CatalogueResponse = CatalogueEntry[]; // GET /drops
+export type AdminDropsResponse = AdminDrop[];    // GET /admin/drops
+export type AdminDropResponse = AdminDrop;       // POST /admin/drops, POST /admin/drops/:productId
+export type DropImageResponse = CatalogueEntry;  // POST /admin/drops/:productId/image
+
+/** POST /auth/logout */
+export interface LogoutResponse {
+  success: true;
+}
+
+/** GET /wallet */
+export interface WalletResponse {
+  userId: string;
+  balances: WalletBalance[];
+  entries: WalletEntry[];
+}
+
+/** GET /admin/analytics */
+export interface AnalyticsResponse {
+  summary: AnalyticsSummary;
+  drops: DropAnalytics[];
+}
+
+/**
+ * Messages pushed on GET /stream/:productId (Server-Sent Events, JSON in `data`).
+ * SNAPSHOT is sent once on connect; UPDATE follows every change to the drop.
+ * Both are shown as the viewer whose session token is in `?token=` may see them,
+ * or as the public without one.
+ */
+export type DropStreamMessage =
+  | { type: 'SNAPSHOT'; state: ViewerDropState }
+  | { type: 'UPDATE'; events: DropEvent[]; state: ViewerDropState };
+
+export interface ErrorResponse {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+  };
+}
+
+/**
+ * HTTP status per engine outcome. Non-2xx outcomes still carry the full
+ * result body so clients can render them (e.g. SOLD).
+ */
+export const VIEW_STATUS_CODES: Record<ViewEventResult['status'], number> = {
+  LOCKED: 200,
+  QUEUED: 202,
+  QUEUE_FULL: 429,
+  SOLD: 409,
+  ENDED: 410,
+  NOT_STARTED: 425,
+  PAUSED: 503,
+  INSUFFICIENT_FUNDS: 402,
+  ERROR: 400,
+};
+
+export const PURCHASE_STATUS_CODES: Record<PurchaseResult['status'], number> = {
+  PURCHASED: 200,
+  PENDING: 202,
+  HOLD_EXPIRED: 409,
+  SOLD: 409,
+  ENDED: 410,
+  NOT_STARTED: 425,
+  PAUSED: 503,
+  LOCKED_BY_OTHER: 423,
+  LOCK_REQUIRED: 403,
+  INSUFFICIENT_FUNDS: 402,
+};
+
+/** A declined top-up is a normal result, not an error. */
+export const topUpStatusCode = (result: TopUpResult): number => result.success ? 200 : 402;
+
+// --- Validation ---
+
+type Fields = Record<string, unknown>;
+
+const requireObject = (body: unknown): Fields => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw badRequest('Request body must be a JSON object.');
+  }
+  return body as Fields;
+};
+
+const requireString = (body: Fields, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw badRequest(`"${field}" must be a non-empty string.`);
+  }
+  return value;
+};
+
+const optionalString = (body: Fields, field: string): string | undefined =>
+  body[field] === undefined ? undefined : requireString(body, field);
+
+export const parseCredentialsRequest = (body: unknown): CredentialsRequest => {
+  const fields = requireObject(body);
+  return {
+    email: requireString(fields, 'email'),
+    password: requireString(fields, 'password'),
+  };
+};
+
+const optionalInteger = (query: URLSearchParams, field: string, min: number, max: number, fallback: number): number => {
+  const raw = query.get(field);
+  if (raw === null) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw badRequest(`"${field}" must be an integer from ${min} to ${max}.`);
+  }
+  return value;
+};
+
+export const parseHistoryQuery = (query: URLSearchParams): HistoryQuery => ({
+  offset: optionalInteger(query, 'offset', 0, Number.MAX_SAFE_INTEGER, 0),
+  limit: optionalInteger(query, 'limit', 1, MAX_HISTORY_LIMIT, DEFAULT_HISTORY_LIMIT),
+});
+
+export const parseViewRequest = (body: unknown): ViewRequest => {
+  const fields = requireObject(body);
+  return {
+    productId: requireString(fields, 'productId'),
+    idempotencyKey: optionalString(fields, 'idempotencyKey'),
+  };
+};
+
+export const parseCancelRequest = (body: unknown): CancelRequest => ({
+  productId: requireString(requireObject(body), 'productId'),
+});
+
+const parseShippingAddress = (value: unknown): ShippingAddress => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw badRequest('"shippingAddress" must be an object.');
+  }
+  const fields = value as Fields;
+  return {
+    name: requireString(fields, 'name'),
+    line1: requireString(fields, 'line1'),
+    line2: optionalString(fields, 'line2'),
+    city: requireString(fields, 'city'),
+    region: optionalString(fields, 'region'),
+    postalCode: requireString(fields, 'postalCode'),
+    country: requireString(fields, 'country'),
+  };
+};
+
+export const parseBuyRequest = (body: unknown): BuyRequest => {
+  const fields = requireObject(body);
+  return {
+    productId: requireString(fields, 'productId'),
+    shippingAddress: parseShippingAddress(fields.shippingAddress),
+    idempotencyKey: optionalString(fields, 'idempotencyKey'),
+  };
+};
+
+export const parseOrderStatusRequest = (body: unknown): OrderStatusRequest => {
+  const fields = requireObject(body);
+  const status = requireString(fields, 'status');
+  // PAID is only ever set by the purchase, once the buyer's money is captured
+  if (!ADMIN_ORDER_STATUSES.some(allowed => allowed === status)) {
+    throw badRequest(`"status" must be one of ${ADMIN_ORDER_STATUSES.join(', ')}.`);
+  }
+  return {
+    status: status as OrderStatus,
+    trackingNumber: optionalString(fields, 'trackingNumber'),
+    note: optionalString(fields, 'note'),
+  };
+};
+
+export const parseUserTierRequest = (body: unknown): UserTierRequest => {
+  const { tier } = requireObject(body);
+  if (typeof tier !== 'number' || !Number.isInteger(tier) || tier < 0) {
+    throw badRequest('"tier" must be a non-negative integer.');
+  }
+  return { tier };
+};
+
+const ABUSE_FLAG_STATUSES: AbuseFlagStatus[] = ['OPEN', 'DISMISSED', 'CONFIRMED'];
+
+export const parseAbuseFlagsQuery = (query: URLSearchParams): AbuseFlagsQuery => {
+  const status = query.get('status');
+  if (status === null) return {};
+  if (!ABUSE_FLAG_STATUSES.includes(status as AbuseFlagStatus)) {
+    throw badRequest(`"status" must be one of ${ABUSE_FLAG_STATUSES.join(', ')}.`);
+  }
+  return { status: status as AbuseFlagStatus };
+};
+
+export const parseAbuseReviewRequest = (body: unknown): AbuseReviewRequest => {
+  const fields = requireObject(body);
+  const status = requireString(fields, 'status');
+  if (status !== 'DISMISSED' && status !== 'CONFIRMED') {
+    throw badRequest('"status" must be DISMISSED or CONFIRMED.');
+  }
+  return { status, note: optionalString(fields, 'note') };
+};
+
+export const parseTopUpRequest = (body: unknown): TopUpRequest => {
+  const fields = requireObject(body);
+  const { amount, currency } = fields;
+  if (typeof amount !== 'number' || !Number.isInteger(amount) || amount <= 0) {
+    throw badRequest('"amount" must be a positive integer number of minor units.');
+  }
+  if (typeof currency !== 'string' || !isSupportedCurrency(currency)) {
+    throw badRequest('"currency" must be a supported ISO 4217 code.');
+  }
+  return {
+    amount: amount as Money,
+    currency,
+    paymentToken: requireString(fields, 'paymentToken'),
+  };
+};
+
+export const parseDropImageRequest = (body: unknown): DropImageRequest => ({
+  imageUrl: requireString(requireObject(body), 'imageUrl'),
+});
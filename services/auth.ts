@@ -0,0 +1,205 @@
+/**
+ * User accounts and sessions.
+ * Passwords are stored as salted scrypt hashes, computed off the event loop
+ * (scrypt is slow on purpose). Logging in issues an opaque
+ * session token; only its SHA-256 is stored, so a leaked store can't be used
+ * to log in. Logout revokes the session server-side.
+ */
+import { randomBytes, scrypt, timingSafeEqual, createHash } from 'crypto';
+
+export const DEFAULT_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const MIN_PASSWORD_LENGTH = 8;
+
+const SCRYPT_KEY_LENGTH = 64;
+
+export interface User {
+  id: string;
+  email: string;                 // normalised: trimmed, lower case
+  passwordHash: string;          // scrypt$<salt hex>$<hash hex>
+  createdAt: number;
+  tier?: number;                 // queue priority under the PRIORITY policy; 0 when unset
+  blockedAt?: number;            // set when an admin confirms an abuse flag naming the user
+}
+
+/** A user as the API shows it. */
+export interface PublicUser {
+  id: string;
+  email: string;
+  createdAt: number;
+  tier: number;
+  blockedAt?: number;
+}
+
+export interface Session {
+  tokenHash: string;             // SHA-256 of the token, hex
+  userId: string;
+  createdAt: number;
+  expiresAt: number;
+  revokedAt?: number;
+}
+
+export interface AuthResult {
+  success: boolean;
+  user?: PublicUser;
+  token?: string;                // only ever returned here, never stored
+  expiresAt?: number;
+  error?: 'INVALID_EMAIL' | 'WEAK_PASSWORD' | 'EMAIL_TAKEN' | 'INVALID_CREDENTIALS';
+  message?: string;
+}
+
+/**
+ * Storage for users and sessions.
+ */
+export interface AuthStore {
+  getUser(userId: string): User | undefined;
+  findUserByEmail(email: string): User | undefined;
+  addUser(user: User): void;
+  updateUser(user: User): void;
+  getSession(tokenHash: string): Session | undefined;
+  saveSession(session: Session): void;
+}
+
+export const createInMemoryAuthStore = (): AuthStore => {
+  const users = new Map<string, User>();
+  const sessions = new Map<string, Session>();
+  return {
+    getUser: (userId) => users.get(userId),
+    findUserByEmail: (email) => [...users.values()].find(user => user.email === email),
+    addUser: (user) => {
+      users.set(user.id, user);
+    },
+    updateUser: (user) => {
+      users.set(user.id, user);
+    },
+    getSession: (tokenHash) => sessions.get(tokenHash),
+    saveSession: (session) => {
+      sessions.set(session.tokenHash, session);
+    },
+  };
+};
+
+const deriveKey = (password: string, salt: Buffer, keyLength: number): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+};
+
+export const verifyPassword = async (password: string, passwordHash: string): Promise<boolean> => {
+  const [scheme, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await deriveKey(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const normaliseEmail = (email: string) => email.trim().toLowerCase();
+
+const isEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+export const toPublicUser = ({ id, email, createdAt, tier, blockedAt }: User): PublicUser => ({
+  id,
+  email,
+  createdAt,
+  tier: tier ?? 0,
+  ...(blockedAt !== undefined ? { blockedAt } : {}),
+});
+
+export interface AuthService {
+  signup(email: string, password: string): Promise<AuthResult>;
+  login(email: string, password: string): Promise<AuthResult>;
+  /** Revokes the session; unknown or already revoked tokens are ignored. */
+  logout(token: string): void;
+  /** The user a live session token belongs to, if any. */
+  authenticate(token: string, now?: number): PublicUser | undefined;
+  /** Sets a user's queue priority tier; undefined for an unknown user. */
+  setTier(userId: string, tier: number): PublicUser | undefined;
+  /** Blocks a user from drops; already blocked and unknown users are left alone. */
+  block(userId: string, now?: number): void;
+  /** Whether the user is blocked from drops. */
+  isBlocked(userId: string): boolean;
+}
+
+export const createAuthService = (store: AuthStore, sessionTtlMs: number = DEFAULT_SESSION_TTL_MS): AuthService => {
+  const startSession = (user: User): AuthResult => {
+    const token = randomBytes(32).toString('base64url');
+    const createdAt = Date.now();
+    const session: Session = { tokenHash: hashToken(token), userId: user.id, createdAt, expiresAt: createdAt + sessionTtlMs };
+    store.saveSession(session);
+    return { success: true, user: toPublicUser(user), token, expiresAt: session.expiresAt };
+  };
+
+  return {
+    signup: async (rawEmail, password) => {
+      const email = normaliseEmail(rawEmail);
+      if (!isEmail(email)) {
+        return { success: false, error: 'INVALID_EMAIL', message: 'Enter a valid email address.' };
+      }
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        return { success: false, error: 'WEAK_PASSWORD', message: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.` };
+      }
+      if (store.findUserByEmail(email)) {
+        return { success: false, error: 'EMAIL_TAKEN', message: 'An account with that email already exists.' };
+      }
+
+      const passwordHash = await hashPassword(password);
+      // Another signup for the same email may have finished while this one hashed
+      if (store.findUserByEmail(email)) {
+        return { success: false, error: 'EMAIL_TAKEN', message: 'An account with that email already exists.' };
+      }
+
+      const user: User = {
+        id: `user_${randomBytes(8).toString('hex')}`,
+        email,
+        passwordHash,
+        createdAt: Date.now(),
+      };
+      store.addUser(user);
+      return startSession(user);
+    },
+
+    login: async (rawEmail, password) => {
+      const user = store.findUserByEmail(normaliseEmail(rawEmail));
+      // Same answer for an unknown email and a wrong password
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return { success: false, error: 'INVALID_CREDENTIALS', message: 'Email or password is incorrect.' };
+      }
+      return startSession(user);
+    },
+
+    logout: (token) => {
+      const session = store.getSession(hashToken(token));
+      if (session && !session.revokedAt) {
+        store.saveSession({ ...session, revokedAt: Date.now() });
+      }
+    },
+
+    authenticate: (token, now = Date.now()) => {
+      const session = store.getSession(hashToken(token));
+      if (!session || session.revokedAt || session.expiresAt <= now) return undefined;
+      const user = store.getUser(session.userId);
+      return user && toPublicUser(user);
+    },
+
+    setTier: (userId, tier) => {
+      const user = store.getUser(userId);
+      if (!user) return undefined;
+      const updated = { ...user, tier };
+      store.updateUser(updated);
+      return toPublicUser(updated);
+    },
+
+    block: (userId, now = Date.now()) => {
+      const user = store.getUser(userId);
+      if (user && user.blockedAt === undefined) store.updateUser({ ...user, blockedAt: now });
+    },
+
+    isBlocked: (userId) => store.getUser(userId)?.blockedAt !== undefined,
+  };
+};
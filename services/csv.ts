@@ -0,0 +1,11 @@
+/**
+ * Minimal CSV writer (RFC 4180 quoting) for report exports.
+ */
+
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]): string =>
+  rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
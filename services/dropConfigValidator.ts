@@ -0,0 +1,344 @@
+/**
+ * DropConfig schema validation.
+ * Configs are checked field by field before any drop is initialised, so a bad
+ * merchandising file is rejected with every problem listed at once.
+ */
+import type { DropConfig, QueuePolicy, RefundPolicy, AfterSalePolicy } from './pricingEngine';
+import type { PriceCurveType } from './priceCurves';
+import type { CatalogueEntry, ProductDisplay } from '../types';
+import { SUPPORTED_CURRENCIES, isSupportedCurrency, isWholeMinorUnits } from './money';
+
+export interface ConfigFieldError {
+  productId: string;             // config key the error belongs to
+  field: string;                 // dotted path, e.g. "priceCurve.steps[1].fromView"
+  message: string;
+}
+
+export interface ConfigValidationResult {
+  valid: boolean;
+  errors: ConfigFieldError[];
+}
+
+export class DropConfigError extends Error {
+  readonly errors: ConfigFieldError[];
+
+  constructor(errors: ConfigFieldError[]) {
+    super(`Invalid drop config:\n${errors.map(formatConfigError).join('\n')}`);
+    this.name = 'DropConfigError';
+    this.errors = errors;
+  }
+}
+
+const QUEUE_POLICIES: QueuePolicy[] = ['FIFO', 'LOTTERY', 'PRIORITY'];
+const AFTER_SALE_POLICIES: AfterSalePolicy[] = ['CONTINUE', 'RESET', 'HOLD'];
+const REFUND_POLICIES: RefundPolicy[] = ['NONE', 'FULL', 'PRO_RATA_CREDIT'];
+const PRICE_CURVE_TYPES: PriceCurveType[] = ['LINEAR', 'EXPONENTIAL', 'STEP', 'DYNAMIC'];
+
+// Every field a config may carry; a Record so a new DropConfig field can't be left out.
+// Anything else is rejected rather than stored and served with the catalogue.
+const DROP_CONFIG_FIELDS: Record<keyof DropConfig, true> = {
+  productId: true, name: true, supplierId: true, currency: true,
+  basePrice: true, viewingFee: true, minPrice: true, priceCurve: true,
+  priceDropShare: true, platformShare: true, supplierShareOfPlatform: true, qomoShareOfPlatform: true,
+  quantity: true, afterSalePolicy: true, resetPrice: true,
+  lockDurationMs: true, claimWindowMs: true, paymentWindowMs: true,
+  maxQueueLength: true, queueEntryTtlMs: true, queuePolicy: true,
+  startsAt: true, endsAt: true, refundPolicy: true,
+};
+
+const DISPLAY_FIELDS: Record<keyof ProductDisplay, true> = {
+  description: true, longDescription: true, placeholderUrl: true, imageUrl: true,
+};
+
+const PRICE_CURVE_FIELDS: Record<PriceCurveType, string[]> = {
+  LINEAR: ['type'],
+  EXPONENTIAL: ['type', 'rate'],
+  STEP: ['type', 'steps'],
+  DYNAMIC: ['type', 'reservePrice'],
+};
+
+const STEP_FIELDS = ['fromView', 'dropAmount'];
+
+const unknownFields = (value: Fields, allowed: string[]): string[] =>
+  Object.keys(value).filter(field => !allowed.includes(field));
+
+// Shares are written as decimals (0.8 + 0.2), so compare with a tolerance.
+const SHARE_TOLERANCE = 1e-9;
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/** Uploaded images are stored inline as data URLs; generated ones may be hosted. */
+export const isImageUrl = (value: unknown): value is string =>
+  typeof value === 'string' && (value.startsWith('https://') || value.startsWith('data:image/'));
+
+export const formatConfigError = (error: ConfigFieldError) =>
+  `  [${error.productId}] ${error.field}: ${error.message}`;
+
+/**
+ * Validates a single DropConfig. `key` is the config's key in its catalogue, if any.
+ */
+export const validateDropConfig = (raw: unknown, key?: string): ConfigValidationResult => {
+  const productId = key ?? (isObject(raw) && typeof raw.productId === 'string' ? raw.productId : '?');
+  const errors: ConfigFieldError[] = [];
+  const fail = (field: string, message: string) => errors.push({ productId, field, message });
+
+  if (!isObject(raw)) {
+    fail('(root)', 'must be an object');
+    return { valid: false, errors };
+  }
+
+  unknownFields(raw, Object.keys(DROP_CONFIG_FIELDS)).forEach(field => fail(field, 'is not a known field'));
+
+  // Identity
+  if (typeof raw.productId !== 'string' || raw.productId.trim() === '') {
+    fail('productId', 'must be a non-empty string');
+  } else if (key !== undefined && raw.productId !== key) {
+    fail('productId', `must match its catalogue key "${key}"`);
+  }
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') {
+    fail('name', 'must be a non-empty string');
+  }
+  if (typeof raw.supplierId !== 'string' || raw.supplierId.trim() === '') {
+    fail('supplierId', 'must be a non-empty string');
+  }
+  if (!isSupportedCurrency(raw.currency)) {
+    fail('currency', `must be one of ${SUPPORTED_CURRENCIES.join(', ')}`);
+  }
+
+  // Prices
+  const requireNumber = (field: string): number | undefined => {
+    const value = raw[field];
+    if (!isNumber(value)) {
+      fail(field, 'must be a number');
+      return undefined;
+    }
+    return value;
+  };
+
+  // Amounts are major units and must be whole cents (the engine works in Money).
+  const requireAmount = (field: string): number | undefined => {
+    const value = requireNumber(field);
+    if (value !== undefined && !isWholeMinorUnits(value)) {
+      fail(field, 'must be a whole number of cents');
+      return undefined;
+    }
+    return value;
+  };
+
+  const basePrice = requireAmount('basePrice');
+  const minPrice = requireAmount('minPrice');
+  const viewingFee = requireAmount('viewingFee');
+
+  if (viewingFee !== undefined && viewingFee <= 0) fail('viewingFee', 'must be greater than 0');
+  if (minPrice !== undefined && minPrice < 0) fail('minPrice', 'must not be negative');
+  if (basePrice !== undefined && minPrice !== undefined && minPrice >= basePrice) {
+    fail('minPrice', `must be less than basePrice (${basePrice})`);
+  }
+
+  // Revenue split
+  const requireShare = (field: string): number | undefined => {
+    const value = requireNumber(field);
+    if (value !== undefined && (value < 0 || value > 1)) {
+      fail(field, 'must be between 0 and 1');
+      return undefined;
+    }
+    return value;
+  };
+
+  const priceDropShare = requireShare('priceDropShare');
+  const platformShare = requireShare('platformShare');
+  const supplierShare = requireShare('supplierShareOfPlatform');
+  const qomoShare = requireShare('qomoShareOfPlatform');
+
+  if (priceDropShare !== undefined && platformShare !== undefined &&
+      Math.abs(priceDropShare + platformShare - 1) > SHARE_TOLERANCE) {
+    fail('platformShare', `priceDropShare + platformShare must equal 1 (got ${priceDropShare + platformShare})`);
+  }
+  if (supplierShare !== undefined && qomoShare !== undefined &&
+      Math.abs(supplierShare + qomoShare - 1) > SHARE_TOLERANCE) {
+    fail('qomoShareOfPlatform', `supplierShareOfPlatform + qomoShareOfPlatform must equal 1 (got ${supplierShare + qomoShare})`);
+  }
+
+  // Lock & queue policy (all optional)
+  const optionalPositive = (field: string, integer = false) => {
+    const value = raw[field];
+    if (value === undefined) return;
+    if (!isNumber(value) || value <= 0 || (integer && !Number.isInteger(value))) {
+      fail(field, integer ? 'must be a positive integer' : 'must be a positive number');
+    }
+  };
+
+  optionalPositive('lockDurationMs');
+  optionalPositive('claimWindowMs');
+  optionalPositive('paymentWindowMs');
+  optionalPositive('maxQueueLength', true);
+  optionalPositive('queueEntryTtlMs');
+
+  if (raw.queuePolicy !== undefined && !QUEUE_POLICIES.includes(raw.queuePolicy as QueuePolicy)) {
+    fail('queuePolicy', `must be one of ${QUEUE_POLICIES.join(', ')}`);
+  }
+
+  // Inventory (optional)
+  optionalPositive('quantity', true);
+  if (raw.afterSalePolicy !== undefined && !AFTER_SALE_POLICIES.includes(raw.afterSalePolicy as AfterSalePolicy)) {
+    fail('afterSalePolicy', `must be one of ${AFTER_SALE_POLICIES.join(', ')}`);
+  }
+  if (raw.resetPrice !== undefined) {
+    const resetPrice = requireAmount('resetPrice');
+    if (resetPrice !== undefined && minPrice !== undefined && resetPrice <= minPrice) {
+      fail('resetPrice', `must be greater than minPrice (${minPrice})`);
+    }
+    if (raw.afterSalePolicy !== 'RESET') {
+      fail('resetPrice', 'only applies when afterSalePolicy is RESET');
+    }
+  }
+
+  // Schedule (optional)
+  const optionalTime = (field: string): number | undefined => {
+    const value = raw[field];
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+      fail(field, 'must be an ISO 8601 date-time string');
+      return undefined;
+    }
+    return Date.parse(value);
+  };
+
+  const startsAt = optionalTime('startsAt');
+  const endsAt = optionalTime('endsAt');
+  if (startsAt !== undefined && endsAt !== undefined && endsAt <= startsAt) {
+    fail('endsAt', 'must be after startsAt');
+  }
+  if (raw.refundPolicy !== undefined && !REFUND_POLICIES.includes(raw.refundPolicy as RefundPolicy)) {
+    fail('refundPolicy', `must be one of ${REFUND_POLICIES.join(', ')}`);
+  }
+
+  // Price curve (optional)
+  if (raw.priceCurve !== undefined) {
+    validatePriceCurve(raw.priceCurve, basePrice, minPrice, fail);
+  }
+
+  return { valid: errors.length === 0, errors };
+};
+
+const validatePriceCurve = (
+  curve: unknown,
+  basePrice: number | undefined,
+  minPrice: number | undefined,
+  fail: (field: string, message: string) => void
+) => {
+  if (!isObject(curve) || !PRICE_CURVE_TYPES.includes(curve.type as PriceCurveType)) {
+    fail('priceCurve.type', `must be one of ${PRICE_CURVE_TYPES.join(', ')}`);
+    return;
+  }
+  unknownFields(curve, PRICE_CURVE_FIELDS[curve.type as PriceCurveType])
+    .forEach(field => fail(`priceCurve.${field}`, 'is not a known field'));
+
+  switch (curve.type) {
+    case 'EXPONENTIAL':
+      if (!isNumber(curve.rate) || curve.rate <= 0 || curve.rate >= 1) {
+        fail('priceCurve.rate', 'must be between 0 and 1 (exclusive)');
+      }
+      break;
+
+    case 'STEP':
+      if (!Array.isArray(curve.steps) || curve.steps.length === 0) {
+        fail('priceCurve.steps', 'must be a non-empty array');
+        break;
+      }
+      curve.steps.forEach((step: unknown, i: number) => {
+        const path = `priceCurve.steps[${i}]`;
+        if (!isObject(step)) {
+          fail(path, 'must be an object');
+          return;
+        }
+        unknownFields(step, STEP_FIELDS).forEach(field => fail(`${path}.${field}`, 'is not a known field'));
+        if (!isNumber(step.fromView) || !Number.isInteger(step.fromView) || step.fromView < 1) {
+          fail(`${path}.fromView`, 'must be an integer of at least 1');
+        }
+        if (!isNumber(step.dropAmount) || step.dropAmount < 0 || !isWholeMinorUnits(step.dropAmount)) {
+          fail(`${path}.dropAmount`, 'must be a non-negative whole number of cents');
+        }
+      });
+      break;
+
+    case 'DYNAMIC':
+      if (!isNumber(curve.reservePrice) || !isWholeMinorUnits(curve.reservePrice)) {
+        fail('priceCurve.reservePrice', 'must be a whole number of cents');
+      } else if (basePrice !== undefined && minPrice !== undefined &&
+                 (curve.reservePrice < minPrice || curve.reservePrice >= basePrice)) {
+        fail('priceCurve.reservePrice', `must be at least minPrice (${minPrice}) and less than basePrice (${basePrice})`);
+      }
+      break;
+  }
+};
+
+/**
+ * Validates a catalogue of DropConfigs keyed by productId.
+ */
+export const validateDropConfigs = (raw: unknown): ConfigValidationResult => {
+  if (!isObject(raw)) {
+    return { valid: false, errors: [{ productId: '?', field: '(root)', message: 'must be an object keyed by productId' }] };
+  }
+  const errors = Object.entries(raw).flatMap(([key, config]) => validateDropConfig(config, key).errors);
+  return { valid: errors.length === 0, errors };
+};
+
+/**
+ * Validates a catalogue entry: its DropConfig fields plus its display block.
+ */
+export const validateCatalogueEntry = (raw: unknown, key: string): ConfigValidationResult => {
+  const { display, ...config } = isObject(raw) ? raw : { display: undefined };
+  const { errors } = validateDropConfig(isObject(raw) ? config : raw, key);
+
+  if (isObject(raw)) {
+    if (!isObject(display)) {
+      errors.push({ productId: key, field: 'display', message: 'must be an object' });
+    } else {
+      unknownFields(display, Object.keys(DISPLAY_FIELDS))
+        .forEach(field => errors.push({ productId: key, field: `display.${field}`, message: 'is not a known field' }));
+      ['description', 'longDescription', 'placeholderUrl'].forEach((field) => {
+        const value = display[field];
+        if (typeof value !== 'string' || value.trim() === '') {
+          errors.push({ productId: key, field: `display.${field}`, message: 'must be a non-empty string' });
+        }
+      });
+      // Both end up in <img src>, so only image URLs are allowed
+      const { placeholderUrl, imageUrl } = display;
+      if (typeof placeholderUrl === 'string' && placeholderUrl.trim() !== '' && !isImageUrl(placeholderUrl)) {
+        errors.push({ productId: key, field: 'display.placeholderUrl', message: 'must be an https:// or data:image/ URL' });
+      }
+      if (imageUrl !== undefined && !isImageUrl(imageUrl)) {
+        errors.push({ productId: key, field: 'display.imageUrl', message: 'must be an https:// or data:image/ URL' });
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+};
+
+/**
+ * Validates a catalogue (config/products.json format) keyed by productId.
+ */
+export const validateCatalogue = (raw: unknown): ConfigValidationResult => {
+  if (!isObject(raw)) {
+    return { valid: false, errors: [{ productId: '?', field: '(root)', message: 'must be an object keyed by productId' }] };
+  }
+  const errors = Object.entries(raw).flatMap(([key, entry]) => validateCatalogueEntry(entry, key).errors);
+  return { valid: errors.length === 0, errors };
+};
+
+/**
+ * Validates a catalogue and returns its entries, or throws DropConfigError.
+ */
+export const loadCatalogue = (raw: unknown): CatalogueEntry[] => {
+  const result = validateCatalogue(raw);
+  if (!result.valid) throw new DropConfigError(result.errors);
+  return Object.values(raw as Record<string, CatalogueEntry>);
+};
@@ -0,0 +1,88 @@
+import { DropConfig, DropState, DropEvent, initDrop } from './pricingEngine';
+import { productNotFound, versionConflict } from './apiErrors';
+import type { ProductDisplay } from '../types';
+
+/**
+ * Storage for drops: each drop's config, its current state and its event log.
+ * Logs are append-only; even a reset is recorded as an event (DROP_RESET).
+ * services/api.ts reads and writes drops exclusively through this interface.
+ */
+export interface DropRepository {
+  listProductIds(): string[];
+  getConfig(productId: string): DropConfig | undefined;
+  getState(productId: string): DropState | undefined;
+  getEvents(productId: string): DropEvent[] | undefined;
+  getDisplay(productId: string): ProductDisplay | undefined;
+
+  /**
+   * Registers a drop, or refreshes the config of an existing one.
+   * Existing state and events are kept, and so is the display unless one is given.
+   */
+  upsertConfig(config: DropConfig, display?: ProductDisplay): void;
+
+  /**
+   * Appends events to the drop's log and stores the resulting state.
+   * Compare-and-swap: throws a VERSION_CONFLICT ApiError unless the stored state is
+   * still at `expectedVersion`, i.e. nobody wrote since it was read.
+   */
+  save(productId: string, state: DropState, events: DropEvent[], expectedVersion: number): void;
+}
+
+export interface DropRecord {
+  config: DropConfig;
+  state: DropState;
+  events: DropEvent[];
+  display?: ProductDisplay;      // storefront copy; drops without one aren't listed
+}
+
+/**
+ * Builds a repository on top of a plain record map.
+ * `onChange` is called after every write so backing stores can persist.
+ */
+export const createRecordRepository = (
+  records: Map<string, DropRecord>,
+  onChange: () => void = () => {}
+): DropRepository => {
+  const getRecord = (productId: string): DropRecord => {
+    const record = records.get(productId);
+    if (!record) throw productNotFound(productId);
+    return record;
+  };
+
+  return {
+    listProductIds: () => [...records.keys()],
+    getConfig: (productId) => records.get(productId)?.config,
+    getState: (productId) => records.get(productId)?.state,
+    getEvents: (productId) => records.get(productId)?.events,
+    getDisplay: (productId) => records.get(productId)?.display,
+
+    upsertConfig: (config, display) => {
+      const existing = records.get(config.productId);
+      if (existing) {
+        existing.config = config;
+        if (display) existing.display = display;
+      } else {
+        records.set(config.productId, { config, state: initDrop(config), events: [], display });
+      }
+      onChange();
+    },
+
+    save: (productId, state, events, expectedVersion) => {
+      const record = getRecord(productId);
+      if (record.state.version !== expectedVersion) {
+        throw versionConflict(productId, expectedVersion, record.state.version);
+      }
+      record.state = state;
+      if (events.length > 0) {
+        record.events = [...record.events, ...events];
+      }
+      onChange();
+    },
+  };
+};
+
+/**
+ * Process-local repository. Drops vanish when the process exits.
+ */
+export const createInMemoryDropRepository = (): DropRepository =>
+  createRecordRepository(new Map());
@@ -0,0 +1,54 @@
+import fs from 'fs';
+import path from 'path';
+import { AuthStore, Session, User } from './auth';
+
+interface AuthFile {
+  users: User[];
+  sessions: Session[];
+}
+
+/**
+ * JSON file-backed users and sessions for Node. Same write strategy as
+ * fileDropRepository: load once, rewrite via temp file + rename on change.
+ * Expired and revoked sessions are dropped whenever the file is rewritten.
+ */
+export const createFileAuthStore = (filePath: string): AuthStore => {
+  const users = new Map<string, User>();
+  const sessions = new Map<string, Session>();
+
+  if (fs.existsSync(filePath)) {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as AuthFile;
+    (data.users || []).forEach(user => users.set(user.id, user));
+    (data.sessions || []).forEach(session => sessions.set(session.tokenHash, session));
+  }
+
+  const persist = () => {
+    const now = Date.now();
+    sessions.forEach((session, tokenHash) => {
+      if (session.revokedAt || session.expiresAt <= now) sessions.delete(tokenHash);
+    });
+
+    const tmpPath = `${filePath}.tmp`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(tmpPath, JSON.stringify({ users: [...users.values()], sessions: [...sessions.values()] } satisfies AuthFile, null, 2));
+    fs.renameSync(tmpPath, filePath);
+  };
+
+  return {
+    getUser: (userId) => users.get(userId),
+    findUserByEmail: (email) => [...users.values()].find(user => user.email === email),
+    addUser: (user) => {
+      users.set(user.id, user);
+      persist();
+    },
+    updateUser: (user) => {
+      users.set(user.id, user);
+      persist();
+    },
+    getSession: (tokenHash) => sessions.get(tokenHash),
+    saveSession: (session) => {
+      sessions.set(session.tokenHash, session);
+      persist();
+    },
+  };
+};
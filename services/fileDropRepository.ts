@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+import { DropRepository, DropRecord, createRecordRepository } from './dropRepository';
+
+interface DropFile {
+  drops: Record<string, DropRecord>;
+}
+
+export interface FileDropRepositoryOptions {
+  readOnly?: boolean;            // for reports: no writer lock, and writes throw
+}
+
+const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+};
+
+/**
+ * Claims `<filePath>.lock` for this process, or throws if a live process
+ * holds it. A lock left behind by a process that died is taken over.
+ */
+const acquireWriterLock = (filePath: string) => {
+  const lockPath = `${filePath}.lock`;
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  try {
+    fs.writeFileSync(lockPath, String(process.pid), { flag: 'wx' });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    const owner = Number(fs.readFileSync(lockPath, 'utf-8'));
+    if (owner !== process.pid && isProcessAlive(owner)) {
+      throw new Error(`${filePath} is in use by process ${owner}; the file store supports one writing process at a time.`);
+    }
+    fs.writeFileSync(lockPath, String(process.pid));
+  }
+
+  process.on('exit', () => {
+    try {
+      if (Number(fs.readFileSync(lockPath, 'utf-8')) === process.pid) fs.unlinkSync(lockPath);
+    } catch {
+      // Already gone; nothing to release
+    }
+  });
+};
+
+/**
+ * JSON file-backed repository for Node (servers, scripts, dev boxes).
+ * The whole store is loaded on creation and rewritten after every change.
+ * Writes go to a temp file first and are renamed into place, so a crash
+ * mid-write never leaves a truncated store behind.
+ *
+ * Single process only: version checks run against this process's copy of the
+ * store, so a second writer would silently overwrite its events. A lock file
+ * next to the store makes a second writing process fail on creation instead.
+ * Readers (`readOnly`) may run alongside the writer.
+ */
+export const createFileDropRepository = (filePath: string, options: FileDropRepositoryOptions = {}): DropRepository => {
+  const records = new Map<string, DropRecord>();
+
+  if (!options.readOnly) acquireWriterLock(filePath);
+
+  if (fs.existsSync(filePath)) {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as DropFile;
+    Object.entries(data.drops || {}).forEach(([productId, record]) => {
+      // Stores written before DropState.version/phase/inventory: one version
+      // per logged event, and a drop was a single unit, either sold or live
+      const { state } = record;
+      const version = state.version ?? record.events.length;
+      const phase = state.phase ?? (state.isSold ? 'SOLD' : 'LIVE');
+      const unitsRemaining = state.unitsRemaining ?? (state.isSold ? 0 : 1);
+      const sales = state.sales ?? (state.buyerId && state.soldPrice !== undefined
+        ? [{ buyerId: state.buyerId, soldPrice: state.soldPrice, at: record.events[record.events.length - 1]?.at ?? 0 }]
+        : []);
+      records.set(productId, { ...record, state: { ...state, version, phase, unitsRemaining, sales } });
+    });
+  }
+
+  const persist = () => {
+    if (options.readOnly) throw new Error(`${filePath} was opened read-only.`);
+    const data: DropFile = { drops: Object.fromEntries(records) };
+    const tmpPath = `${filePath}.tmp`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tmpPath, filePath);
+  };
+
+  return createRecordRepository(records, persist);
+};
@@ -0,0 +1,35 @@
+import fs from 'fs';
+import path from 'path';
+import { Order, OrderStore } from './orders';
+
+interface OrderFile {
+  orders: Order[];
+}
+
+/**
+ * JSON file-backed orders for Node. Same write strategy as
+ * fileDropRepository: load once, rewrite via temp file + rename on change.
+ */
+export const createFileOrderStore = (filePath: string): OrderStore => {
+  const orders = new Map<string, Order>();
+
+  if (fs.existsSync(filePath)) {
+    ((JSON.parse(fs.readFileSync(filePath, 'utf-8')) as OrderFile).orders || []).forEach(order => orders.set(order.id, order));
+  }
+
+  const persist = () => {
+    const tmpPath = `${filePath}.tmp`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(tmpPath, JSON.stringify({ orders: [...orders.values()] } satisfies OrderFile, null, 2));
+    fs.renameSync(tmpPath, filePath);
+  };
+
+  return {
+    get: (orderId) => orders.get(orderId),
+    list: () => [...orders.values()],
+    save: (order) => {
+      orders.set(order.id, order);
+      persist();
+    },
+  };
+};
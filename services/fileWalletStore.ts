@@ -0,0 +1,34 @@
+import fs from 'fs';
+import path from 'path';
+import { WalletEntry, WalletStore } from './wallet';
+
+interface WalletFile {
+  entries: WalletEntry[];
+}
+
+/**
+ * JSON file-backed wallet ledger for Node. Same write strategy as
+ * fileDropRepository: load once, rewrite via temp file + rename on change.
+ */
+export const createFileWalletStore = (filePath: string): WalletStore => {
+  let entries: WalletEntry[] = [];
+
+  if (fs.existsSync(filePath)) {
+    entries = (JSON.parse(fs.readFileSync(filePath, 'utf-8')) as WalletFile).entries || [];
+  }
+
+  const persist = () => {
+    const tmpPath = `${filePath}.tmp`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(tmpPath, JSON.stringify({ entries } satisfies WalletFile, null, 2));
+    fs.renameSync(tmpPath, filePath);
+  };
+
+  return {
+    getEntries: (userId) => entries.filter(entry => entry.userId === userId),
+    append: (newEntries) => {
+      entries = [...entries, ...newEntries];
+      persist();
+    },
+  };
+};
@@ -0,0 +1,50 @@
+/**
+ * Foreign-exchange rates.
+ * Providers are pluggable; the storefront ships with a static table
+ * (config/fxRates.json) so comparisons work offline.
+ */
+import staticRates from '../config/fxRates.json';
+
+export interface FxRateProvider {
+  /**
+   * Units of `to` per one unit of `from`, or null if either currency is unknown.
+   */
+  getRate(from: string, to: string): Promise<number | null>;
+}
+
+export interface FxRateTable {
+  base: string;                  // every rate is quoted against this currency
+  asOf: string;
+  rates: Record<string, number>; // units of currency per one unit of base
+}
+
+/**
+ * Provider backed by a fixed rate table. Cross rates go through the table's base.
+ */
+export const createStaticFxRateProvider = (table: FxRateTable): FxRateProvider => ({
+  getRate: async (from, to) => {
+    const source = from.toUpperCase();
+    const target = to.toUpperCase();
+    if (source === target) return 1;
+
+    const fromRate = source === table.base ? 1 : table.rates[source];
+    const toRate = target === table.base ? 1 : table.rates[target];
+    if (!fromRate || !toRate) return null;
+    return toRate / fromRate;
+  },
+});
+
+export const defaultFxRateProvider: FxRateProvider = createStaticFxRateProvider(staticRates);
+
+/**
+ * Converts a major-unit amount between currencies, or returns null if no rate is known.
+ */
+export const convertAmount = async (
+  amount: number,
+  from: string,
+  to: string,
+  provider: FxRateProvider = defaultFxRateProvider
+): Promise<number | null> => {
+  const rate = await provider.getRate(from, to);
+  return rate === null ? null : amount * rate;
+};
@@ -1,5 +1,6 @@
 import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
 import { ImageResolution } from "../types";
+import { FxRateProvider, defaultFxRateProvider } from "./fxRates";
 
 // Local interface to provide type safety for the aistudio object
 // without conflicting with global declarations that may already exist.
@@ -14,12 +15,16 @@ export interface ComparisonData {
   price: number;
   currency: string;
   whoIsCheaper: "qomo" | "retailer" | "same";
+  // Retailer price in the drop's currency; null if no FX rate is known.
+  // Set by normalizeComparisons, never by the model.
+  normalizedPrice?: number | null;
 }
 
 export interface PriceAnalysisResult {
   productName: string;
   region: string;
   qomoBasePrice: number;
+  qomoCurrency: string;
   comparisons: ComparisonData[];
 }
 
@@ -119,6 +124,7 @@ export const generateProductImage = async (
 export const analyzePriceComparison = async (
   productName: string,
   basePrice: number,
+  currency: string = "USD",
   region: string = "US"
 ): Promise<{ data: PriceAnalysisResult | null; sources: { title: string; uri: string }[] }> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
@@ -137,6 +143,7 @@ export const analyzePriceComparison = async (
     INPUT YOU RECEIVE:
     - productName: ${productName}
     - basePrice: ${basePrice}
+    - currency: ${currency} (the currency of basePrice)
     - region: ${region}
     -----------------------------------------------------
 
@@ -176,6 +183,7 @@ export const analyzePriceComparison = async (
       "productName": string,
       "region": string,
       "qomoBasePrice": number,
+      "qomoCurrency": string,
       "comparisons": [
         {
           "retailer": string,
@@ -203,7 +211,7 @@ export const analyzePriceComparison = async (
   const response = await ai.models.generateContent({
     model: 'gemini-2.5-flash',
     contents: {
-      parts: [{ text: `Compare market prices for ${productName} in ${region} against Qomo's base price of $${basePrice}.` }],
+      parts: [{ text: `Compare market prices for ${productName} in ${region} against Qomo's base price of ${basePrice} ${currency}.` }],
     },
     config: {
       systemInstruction: systemInstruction,
@@ -244,6 +252,31 @@ export const analyzePriceComparison = async (
   return { data, sources: uniqueSources };
 };
 
+/**
+ * Converts every retailer price into the drop's currency and recomputes
+ * whoIsCheaper against our own basePrice (the model compares currencies
+ * naively). Entries without a known FX rate keep the model's verdict.
+ */
+export const normalizeComparisons = async (
+  data: PriceAnalysisResult,
+  basePrice: number,
+  currency: string,
+  fxProvider: FxRateProvider = defaultFxRateProvider
+): Promise<PriceAnalysisResult> => {
+  const comparisons = await Promise.all(data.comparisons.map(async (comp) => {
+    const rate = await fxProvider.getRate(comp.currency, currency);
+    if (rate === null) return { ...comp, normalizedPrice: null };
+
+    const normalizedPrice = Math.round(comp.price * rate * 100) / 100;
+    const difference = normalizedPrice - basePrice;
+    const whoIsCheaper: ComparisonData["whoIsCheaper"] =
+      Math.abs(difference) <= 1 ? "same" : difference > 0 ? "qomo" : "retailer";
+    return { ...comp, normalizedPrice, whoIsCheaper };
+  }));
+
+  return { ...data, qomoBasePrice: basePrice, qomoCurrency: currency, comparisons };
+};
+
 const extractImage = (response: GenerateContentResponse): string | null => {
   if (response.candidates?.[0]?.content?.parts) {
     for (const part of response.candidates[0].content.parts) {
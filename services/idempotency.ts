@@ -0,0 +1,46 @@
+/**
+ * Idempotency keys for mutating API calls.
+ * The first call with a key stores its result; replays within the retention
+ * window get that result back instead of re-applying the action.
+ */
+
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface IdempotencyRecord<T> {
+  fingerprint: string;           // what the key was first used for; replays must match
+  result: T;
+  expiresAt: number;
+}
+
+export interface IdempotencyStore<T> {
+  get(key: string, now?: number): IdempotencyRecord<T> | undefined;
+  set(key: string, fingerprint: string, result: T, now?: number): void;
+}
+
+/**
+ * In-memory store. Expired keys are dropped lazily on access and on each write.
+ */
+export const createIdempotencyStore = <T>(ttlMs: number = DEFAULT_IDEMPOTENCY_TTL_MS): IdempotencyStore<T> => {
+  const records = new Map<string, IdempotencyRecord<T>>();
+
+  const prune = (now: number) => {
+    records.forEach((record, key) => {
+      if (record.expiresAt <= now) records.delete(key);
+    });
+  };
+
+  return {
+    get: (key, now = Date.now()) => {
+      const record = records.get(key);
+      if (record && record.expiresAt <= now) {
+        records.delete(key);
+        return undefined;
+      }
+      return record;
+    },
+    set: (key, fingerprint, result, now = Date.now()) => {
+      prune(now);
+      records.set(key, { fingerprint, result, expiresAt: now + ttlMs });
+    },
+  };
+};
@@ -0,0 +1,35 @@
+import { sweepDrops } from './api';
+
+// Upper bound between sweeps, so locks granted after scheduling are picked up promptly.
+const MAX_IDLE_MS = 1000;
+
+/**
+ * Starts the server-side scheduler that expires locks at activeViewExpiresAt,
+ * promotes the queue head and evicts heads that miss their claim window.
+ * Each run is timed to the next pending deadline. Returns a stop function.
+ */
+export const startLockSweeper = (): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const run = () => {
+    if (stopped) return;
+    let nextAt: number | null = null;
+    try {
+      nextAt = sweepDrops();
+    } catch (err) {
+      console.error('Lock sweep failed', err);
+    }
+
+    const now = Date.now();
+    const delay = nextAt === null ? MAX_IDLE_MS : Math.min(Math.max(0, nextAt - now), MAX_IDLE_MS);
+    timer = setTimeout(run, delay);
+  };
+
+  run();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+};
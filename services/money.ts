@@ -0,0 +1,95 @@
+/**
+ * Money in integer minor units (cents).
+ *
+ * All engine amounts are Money: sums and differences are exact, and the only
+ * rounding happens in multiplyMoney/allocateMoney, where the rule is explicit.
+ * Configs and merchandising files stay in major units (e.g. dollars) and are
+ * converted with fromMajor at the engine boundary.
+ *
+ * Amounts carry no currency of their own; the drop's DropConfig.currency
+ * applies to every amount it produces.
+ */
+
+export type Money = number & { readonly __money: 'minor-units' };
+
+export const MINOR_UNITS_PER_MAJOR = 100;
+
+export const ZERO: Money = 0 as Money;
+
+/**
+ * Currencies drops can be listed in. All use two decimal places, matching
+ * MINOR_UNITS_PER_MAJOR.
+ */
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'AED', 'SAR', 'CAD', 'AUD'] as const;
+
+export type CurrencyCode = typeof SUPPORTED_CURRENCIES[number];
+
+export const isSupportedCurrency = (code: unknown): code is CurrencyCode =>
+  SUPPORTED_CURRENCIES.includes(code as CurrencyCode);
+
+/**
+ * Wraps an integer number of minor units.
+ */
+export const money = (minorUnits: number): Money => {
+  if (!Number.isInteger(minorUnits)) {
+    throw new Error(`Money must be a whole number of minor units (got ${minorUnits})`);
+  }
+  return minorUnits as Money;
+};
+
+/**
+ * Converts a major-unit amount (e.g. 4.99) to Money, rounding to the nearest minor unit.
+ */
+export const fromMajor = (amount: number): Money =>
+  Math.round(amount * MINOR_UNITS_PER_MAJOR) as Money;
+
+export const toMajor = (amount: Money): number => amount / MINOR_UNITS_PER_MAJOR;
+
+/**
+ * True if a major-unit amount has no fractional minor units (e.g. 4.99, not 4.995).
+ */
+export const isWholeMinorUnits = (amount: number): boolean =>
+  Math.abs(amount * MINOR_UNITS_PER_MAJOR - Math.round(amount * MINOR_UNITS_PER_MAJOR)) < 1e-6;
+
+export const addMoney = (...amounts: Money[]): Money =>
+  amounts.reduce((sum, amount) => sum + amount, 0) as Money;
+
+export const subtractMoney = (a: Money, b: Money): Money => (a - b) as Money;
+
+export const maxMoney = (a: Money, b: Money): Money => (a > b ? a : b);
+
+export const minMoney = (a: Money, b: Money): Money => (a < b ? a : b);
+
+/**
+ * Scales an amount by a ratio, rounding half away from zero to the nearest minor unit.
+ */
+export const multiplyMoney = (amount: Money, ratio: number): Money => {
+  const scaled = amount * ratio;
+  // Guard against float noise such as 0.5 * 0.29 * 100 landing a hair below .5
+  return (Math.sign(scaled) * Math.round(Math.abs(scaled) + 1e-9)) as Money;
+};
+
+/**
+ * Splits an amount by ratios without creating or losing a single minor unit.
+ * Every share is rounded down; the leftover minor units all go to the party
+ * at `remainderIndex`, so the parts always sum to `total` exactly.
+ */
+export const allocateMoney = (total: Money, ratios: number[], remainderIndex: number): Money[] => {
+  const parts = ratios.map(ratio => Math.floor(total * ratio + 1e-9));
+  const leftover = total - parts.reduce((sum, part) => sum + part, 0);
+  parts[remainderIndex] += leftover;
+  return parts as Money[];
+};
+
+/**
+ * Formats an amount for display, e.g. "$1,099.50" or "1.099,50 €".
+ * `locale` defaults to the runtime's (the browser's) locale.
+ */
+export const formatMoney = (amount: Money, currency: CurrencyCode, locale?: string): string =>
+  formatMajor(toMajor(amount), currency, locale);
+
+/**
+ * Formats a major-unit amount (e.g. a DropConfig price) for display.
+ */
+export const formatMajor = (amount: number, currency: string, locale?: string): string =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
@@ -0,0 +1,132 @@
+/**
+ * Orders: what happens to a unit after it is bought.
+ * A purchase opens an order in PENDING_PAYMENT; capturing the buyer's hold
+ * moves it to PAID, and the supplier takes it from there:
+ *
+ *   PENDING_PAYMENT → PAID → SHIPPED → DELIVERED
+ *          ↓           ↓        ↓          ↓
+ *      CANCELLED   CANCELLED  RETURNED  RETURNED
+ *
+ * An order whose payment fails is cancelled and the drop's purchase rolled back.
+ * Only the purchase sets PAID; admins make the fulfilment moves
+ * (ADMIN_ORDER_STATUSES), and cancelling or returning a paid order refunds it.
+ */
+import { Money, CurrencyCode } from './money';
+
+export type OrderStatus = 'PENDING_PAYMENT' | 'PAID' | 'SHIPPED' | 'DELIVERED' | 'CANCELLED' | 'RETURNED';
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING_PAYMENT: ['PAID', 'CANCELLED'],
+  PAID: ['SHIPPED', 'CANCELLED'],
+  SHIPPED: ['DELIVERED', 'RETURNED'],
+  DELIVERED: ['RETURNED'],
+  CANCELLED: [],
+  RETURNED: [],
+};
+
+/** Statuses an admin may move an order to. */
+export const ADMIN_ORDER_STATUSES: OrderStatus[] = ['SHIPPED', 'DELIVERED', 'RETURNED', 'CANCELLED'];
+
+export interface ShippingAddress {
+  name: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  region?: string;               // state / province / emirate
+  postalCode: string;
+  country: string;
+}
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  at: number;
+  note?: string;
+}
+
+export interface Order {
+  id: string;
+  productId: string;
+  productName: string;
+  supplierId: string;
+  buyerId: string;
+  soldPrice: Money;              // the drop's soldPrice for this unit
+  currency: CurrencyCode;
+  shippingAddress: ShippingAddress;
+  status: OrderStatus;
+  trackingNumber?: string;
+  createdAt: number;
+  updatedAt: number;
+  history: OrderStatusChange[];  // oldest first, starting with PENDING_PAYMENT
+}
+
+export interface OrderTransitionResult {
+  success: boolean;
+  order: Order;
+  error?: string;
+}
+
+/**
+ * Storage for orders.
+ */
+export interface OrderStore {
+  get(orderId: string): Order | undefined;
+  list(): Order[];               // oldest first
+  save(order: Order): void;      // insert or replace
+}
+
+export const createInMemoryOrderStore = (): OrderStore => {
+  const orders = new Map<string, Order>();
+  return {
+    get: (orderId) => orders.get(orderId),
+    list: () => [...orders.values()],
+    save: (order) => {
+      orders.set(order.id, order);
+    },
+  };
+};
+
+export const createOrder = (
+  details: Pick<Order, 'productId' | 'productName' | 'supplierId' | 'buyerId' | 'soldPrice' | 'currency' | 'shippingAddress'>,
+  now: number = Date.now()
+): Order => ({
+  ...details,
+  id: `order_${crypto.randomUUID()}`,
+  status: 'PENDING_PAYMENT',
+  createdAt: now,
+  updatedAt: now,
+  history: [{ status: 'PENDING_PAYMENT', at: now }],
+});
+
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean =>
+  ORDER_TRANSITIONS[from].includes(to);
+
+/**
+ * Moves an order to `to` if the state machine allows it. Pure: the caller saves.
+ */
+export const transitionOrder = (
+  order: Order,
+  to: OrderStatus,
+  details: { note?: string; trackingNumber?: string } = {},
+  now: number = Date.now()
+): OrderTransitionResult => {
+  if (!canTransition(order.status, to)) {
+    return { success: false, order, error: `Order ${order.id} can't go from ${order.status} to ${to}.` };
+  }
+  return {
+    success: true,
+    order: {
+      ...order,
+      status: to,
+      trackingNumber: details.trackingNumber ?? order.trackingNumber,
+      updatedAt: now,
+      history: [...order.history, { status: to, at: now, ...(details.note ? { note: details.note } : {}) }],
+    },
+  };
+};
+
+/** Whether the buyer's money was ever captured for the order. */
+export const isPaid = (order: Order): boolean =>
+  order.history.some(change => change.status === 'PAID');
+
+/** Suppliers hear about an order once it is paid, and about every change after that. */
+export const isSupplierVisible = isPaid;
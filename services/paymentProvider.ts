@@ -0,0 +1,39 @@
+/**
+ * Payment providers move real money into wallets (top-ups).
+ * The fake provider approves everything except its decline tokens, so the
+ * whole flow runs offline.
+ */
+import { Money, CurrencyCode } from './money';
+
+export interface PaymentChargeRequest {
+  userId: string;
+  amount: Money;
+  currency: CurrencyCode;
+  paymentToken: string;          // card/payment-method token from the client
+}
+
+export interface PaymentChargeResult {
+  success: boolean;
+  transactionId?: string;
+  declineReason?: string;
+}
+
+export interface PaymentProvider {
+  charge(request: PaymentChargeRequest): Promise<PaymentChargeResult>;
+}
+
+export const FAKE_DECLINE_TOKEN = 'tok_decline';
+export const FAKE_APPROVE_TOKEN = 'tok_visa';
+
+/**
+ * Offline provider for development and tests.
+ * Approves every charge except those made with FAKE_DECLINE_TOKEN.
+ */
+export const createFakePaymentProvider = (): PaymentProvider => ({
+  charge: async (request) => {
+    if (request.paymentToken === FAKE_DECLINE_TOKEN) {
+      return { success: false, declineReason: 'Card declined.' };
+    }
+    return { success: true, transactionId: `fake_txn_${crypto.randomUUID()}` };
+  },
+});
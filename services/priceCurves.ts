@@ -0,0 +1,77 @@
+/**
+ * Price-drop curves.
+ * A curve decides how far the live price falls on each paid view. It never
+ * touches the revenue split: the viewing fee is always divided by
+ * priceDropShare/platformShare exactly as configured, whatever the curve.
+ */
+import type { DropConfig, FeeSplit } from './pricingEngine';
+import { Money, ZERO, fromMajor, subtractMoney, maxMoney, multiplyMoney } from './money';
+
+export type PriceCurve =
+  // Every view drops the fee's price-drop portion, viewingFee × priceDropShare (the original behaviour).
+  | { type: 'LINEAR' }
+  // Every view drops `rate` of the remaining gap to minPrice.
+  | { type: 'EXPONENTIAL'; rate: number }
+  // Fixed drop per view (major units), chosen by view count. Views before the first step use LINEAR.
+  | { type: 'STEP'; steps: { fromView: number; dropAmount: number }[] }
+  // LINEAR drop scaled by how far the price still is from `reservePrice` (major units),
+  // so drops shrink towards zero as the price approaches the reserve.
+  | { type: 'DYNAMIC'; reservePrice: number };
+
+export type PriceCurveType = PriceCurve['type'];
+
+export interface PriceDropContext {
+  config: DropConfig;
+  split: FeeSplit;               // the exact split of this view's fee
+  currentPrice: Money;
+  viewNumber: number;            // 1-based number of the view being charged
+}
+
+export interface PriceCurveStrategy<C extends PriceCurve = PriceCurve> {
+  /** Drop for this view, before the engine applies minPrice. */
+  computeDrop(curve: C, context: PriceDropContext): Money;
+}
+
+const linearDrop = ({ split }: PriceDropContext): Money => split.priceDropPortion;
+
+const strategies: { [T in PriceCurveType]: PriceCurveStrategy<Extract<PriceCurve, { type: T }>> } = {
+  LINEAR: {
+    computeDrop: (_, context) => linearDrop(context),
+  },
+
+  EXPONENTIAL: {
+    computeDrop: (curve, { config, currentPrice }) =>
+      multiplyMoney(maxMoney(ZERO, subtractMoney(currentPrice, fromMajor(config.minPrice))), curve.rate),
+  },
+
+  STEP: {
+    computeDrop: (curve, context) => {
+      const step = [...curve.steps]
+        .sort((a, b) => b.fromView - a.fromView)
+        .find(s => s.fromView <= context.viewNumber);
+      return step ? fromMajor(step.dropAmount) : linearDrop(context);
+    },
+  },
+
+  DYNAMIC: {
+    computeDrop: (curve, context) => {
+      const { config, currentPrice } = context;
+      const reserve = fromMajor(curve.reservePrice);
+      const span = subtractMoney(fromMajor(config.basePrice), reserve);
+      if (span <= 0) return ZERO;
+      const remaining = Math.min(1, Math.max(0, subtractMoney(currentPrice, reserve) / span));
+      return multiplyMoney(linearDrop(context), remaining);
+    },
+  },
+};
+
+export const DEFAULT_PRICE_CURVE: PriceCurve = { type: 'LINEAR' };
+
+/**
+ * Drop for the next view under the drop's configured curve.
+ */
+export const computePriceDrop = (context: PriceDropContext): Money => {
+  const curve = context.config.priceCurve ?? DEFAULT_PRICE_CURVE;
+  const strategy = strategies[curve.type] as PriceCurveStrategy;
+  return strategy.computeDrop(curve, context);
+};
@@ -4,93 +4,805 @@
  * 
  * Rules:
  * - Each view charges a fixed fee (e.g., $5).
- * - A percentage of that fee drops the product price.
+ * - A percentage of that fee drops the product price (shaped by the drop's
+ *   price curve, see priceCurves.ts).
  * - The remainder is platform revenue.
  * - Platform revenue is split between the Supplier and Qomo.
  * - Price cannot drop below minPrice.
+ * - A drop that ends before selling out pays viewers back per its refund policy.
+ *
+ * Money: DropConfig amounts are in major units (dollars) as merchandising
+ * writes them. Everything the engine computes or stores is Money (integer
+ * cents); see splitViewingFee for how a fee is divided without losing a cent.
+ *
+ * Every state change is recorded as a DropEvent. DropState is a fold over the
+ * drop's event log, so replaying the log reproduces the live state exactly.
  */
 
+import { PriceCurve, computePriceDrop } from './priceCurves';
+import {
+  Money,
+  CurrencyCode,
+  ZERO,
+  fromMajor,
+  addMoney,
+  subtractMoney,
+  maxMoney,
+  allocateMoney,
+} from './money';
+
 // --- Types ---
 
+/**
+ * How the next lock holder is picked from the queue when the lock frees up.
+ * - FIFO: first in, first out.
+ * - LOTTERY: a random queued viewer, drawn at lock release.
+ * - PRIORITY: highest tier first, FIFO within a tier.
+ */
+export type QueuePolicy = 'FIFO' | 'LOTTERY' | 'PRIORITY';
+
+/**
+ * What viewers get back when a drop ends before selling out. Viewers who
+ * bought a unit get nothing back; their fees paid for the price they bought at.
+ * - NONE: viewing fees are kept.
+ * - FULL: every fee is refunded and the platform revenue it generated is reversed.
+ * - PRO_RATA_CREDIT: each viewer gets wallet credit for the price-drop portion of
+ *   their fees (their share of a discount nobody bought); supplier and Qomo keep
+ *   their shares.
+ */
+export type RefundPolicy = 'NONE' | 'FULL' | 'PRO_RATA_CREDIT';
+
+export type DropEndReason = 'EXPIRED' | 'CANCELLED';
+
+/**
+ * What the price does after a unit sells while stock remains.
+ * - CONTINUE: keeps falling from the sale price.
+ * - RESET: jumps back up to resetPrice (default basePrice) and falls from there.
+ * - HOLD: stays at the sale price for the remaining units; views still cost
+ *   the fee but no longer move the price.
+ */
+export type AfterSalePolicy = 'CONTINUE' | 'RESET' | 'HOLD';
+
+/**
+ * Where a drop is in its lifecycle:
+ * SCHEDULED -> LIVE <-> PAUSED, then SOLD (purchase) or ENDED (end time or
+ * admin cancel). Views and purchases are only accepted while LIVE.
+ */
+export type DropPhase = 'SCHEDULED' | 'LIVE' | 'PAUSED' | 'ENDED' | 'SOLD';
+
 export interface DropConfig {
   productId: string;
   name: string;
-  basePrice: number;
-  viewingFee: number;
+  supplierId: string;            // who is paid for sales and the supplier fee share
+  currency: CurrencyCode;        // applies to every amount below and every engine result
+  basePrice: number;             // major units
+  viewingFee: number;            // major units
   priceDropShare: number;        // e.g., 0.80
   platformShare: number;         // e.g., 0.20
   supplierShareOfPlatform: number; // e.g., 0.25
   qomoShareOfPlatform: number;     // e.g., 0.75
-  minPrice: number;
+  minPrice: number;              // major units
+  priceCurve?: PriceCurve;       // defaults to LINEAR
+
+  // Inventory (all optional)
+  quantity?: number;             // units in the drop, default 1
+  afterSalePolicy?: AfterSalePolicy; // default CONTINUE
+  resetPrice?: number;           // major units; the RESET price, default basePrice
+
+  // Lock & queue policy (defaults in DEFAULT_QUEUE_SETTINGS)
+  lockDurationMs?: number;       // how long a viewer holds the revealed price
+  claimWindowMs?: number;        // how long the next viewer has to take a freed lock
+  paymentWindowMs?: number;      // how long a unit is held while its buyer pays
+  maxQueueLength?: number;       // queue joins beyond this are rejected
+  queueEntryTtlMs?: number;      // queued viewers are evicted after this long
+  queuePolicy?: QueuePolicy;
+
+  // Schedule (all optional)
+  startsAt?: string;             // ISO 8601; the drop is SCHEDULED until this time
+  endsAt?: string;               // ISO 8601; the drop ends unsold at this time
+  refundPolicy?: RefundPolicy;   // defaults to NONE
+}
+
+export interface QueueEntry {
+  viewerId: string;
+  joinedAt: number;
+  tier: number;                  // higher is served first under PRIORITY
+}
+
+/**
+ * A unit held for a buyer while their payment goes through. It ends in a sale
+ * (PURCHASED) or a rollback (PURCHASE_ROLLED_BACK).
+ */
+export interface PendingPurchase {
+  buyerId: string;
+  price: Money;                  // what the buyer pays if the purchase commits
+  startedAt: number;
+  expiresAt: number;             // the sweeper rolls the purchase back after this
+  lockExpiresAt: number | null;  // the buyer's lock when the hold started
+}
+
+export interface Sale {
+  buyerId: string;
+  soldPrice: Money;
+  at: number;
+  refundedAt?: number;           // its order was cancelled or returned and the buyer refunded
 }
 
 export interface DropState {
   productId: string;
-  currentPrice: number;
-  isSold: boolean;
+  currency: CurrencyCode;
+  version: number;               // events applied so far; repository writes compare-and-swap on it
+  currentPrice: Money;
+  phase: DropPhase;
+  isSold: boolean;               // sold out; same as phase === 'SOLD'
   totalViews: number;
-  buyerId?: string;
-  soldPrice?: number;
+  unitsRemaining: number;
+  sales: Sale[];                 // oldest first
+  buyerId?: string;              // latest sale
+  soldPrice?: Money;             // latest sale
+  endedAt?: number;
+  endReason?: DropEndReason;
   
   // Locking & Queueing
   activeViewerId: string | null;
   activeViewExpiresAt: number | null;
-  queue: string[];
+  queue: QueueEntry[];
+
+  // Hand-off: the queue head offered the free lock, until claimExpiresAt
+  claimViewerId: string | null;
+  claimExpiresAt: number | null;
+
+  // Two-phase purchase: set while a buyer is paying; the buyer holds the lock meanwhile
+  pendingPurchase?: PendingPurchase;
 
   // Accumulated Financials
-  totalPlatformRevenue: number;
-  totalSupplierPlatformRevenue: number;
-  totalQomoRevenue: number;
+  totalPlatformRevenue: Money;
+  totalSupplierPlatformRevenue: Money;
+  totalQomoRevenue: Money;
+}
+
+/**
+ * A drop as one viewer is shown it (see toViewerState). The price is theirs
+ * only while they hold the lock, and no other user's ID appears: the queue is
+ * reduced to its length and the viewer's own place. Revenue totals and view
+ * counts are left out because the price can be worked out from them.
+ */
+export interface ViewerDropState {
+  productId: string;
+  currency: CurrencyCode;
+  version: number;
+  phase: DropPhase;
+  isSold: boolean;
+  unitsRemaining: number;
+  unitsSold: number;
+  currentPrice: Money | null;    // null unless the viewer holds the lock
+  soldPrice?: Money;             // latest sale, once the drop is closed
+  endedAt?: number;
+  endReason?: DropEndReason;
+
+  isLocked: boolean;             // someone holds the lock or has been offered it
+  activeViewerId: string | null; // the viewer, while they hold the lock
+  activeViewExpiresAt: number | null;
+  claimViewerId: string | null;  // the viewer, while the freed lock is offered to them
+  claimExpiresAt: number | null;
+  queueLength: number;
+  queuePosition: number;         // 1-based in service order, 0 if not queued
+
+  isUnitHeld: boolean;           // a buyer is paying for a unit
+  pendingPurchase?: PendingPurchase; // the viewer's own held unit
+}
+
+// --- Events ---
+
+interface DropEventBase {
+  productId: string;
+  at: number;
+}
+
+/** A viewer paid the viewing fee, took the lock and moved the price. */
+export interface ViewChargedEvent extends DropEventBase {
+  type: 'VIEW_CHARGED';
+  viewerId: string;
+  fee: Money;
+  priceDropPortion: Money;       // fee - platformRevenue; credited towards the price
+  dropAmount: Money;             // how far the price actually moved (curve, minPrice)
+  priceAfter: Money;
+  platformRevenue: Money;
+  supplierShare: Money;
+  qomoShare: Money;
+  expiresAt: number;
+}
+
+/** A viewer joined the queue behind the current lock holder. */
+export interface QueuedEvent extends DropEventBase {
+  type: 'QUEUED';
+  viewerId: string;
+  tier: number;
+}
+
+/** The lock holder gave up the lock (Cancel action). */
+export interface LockReleasedEvent extends DropEventBase {
+  type: 'LOCK_RELEASED';
+  viewerId: string;
 }
 
+/** The lock holder's window ran out without a purchase. */
+export interface LockExpiredEvent extends DropEventBase {
+  type: 'LOCK_EXPIRED';
+  viewerId: string;
+}
+
+/** The free lock was handed to the queue head, who must claim it within the window. */
+export interface LockOfferedEvent extends DropEventBase {
+  type: 'LOCK_OFFERED';
+  viewerId: string;
+  claimExpiresAt: number;
+}
+
+/** A queued viewer was removed without getting the lock. */
+export interface QueueEvictedEvent extends DropEventBase {
+  type: 'QUEUE_EVICTED';
+  viewerId: string;
+  reason: 'CLAIM_MISSED' | 'TTL_EXPIRED' | 'BLOCKED';  // BLOCKED: an admin blocked the account
+}
+
+/** A buyer started paying; the unit is held for them until expiresAt. */
+export interface PurchasePendingEvent extends DropEventBase {
+  type: 'PURCHASE_PENDING';
+  buyerId: string;
+  price: Money;
+  expiresAt: number;
+}
+
+/**
+ * The held unit was released without a sale. After a failed payment the buyer
+ * gets back the lock time they had left (lockExpiresAt); after a timeout, or
+ * if they had no lock, the lock is freed for the next viewer.
+ */
+export interface PurchaseRolledBackEvent extends DropEventBase {
+  type: 'PURCHASE_ROLLED_BACK';
+  buyerId: string;
+  reason: 'PAYMENT_FAILED' | 'PAYMENT_TIMEOUT';
+  lockExpiresAt: number | null;
+}
+
+export interface PurchasedEvent extends DropEventBase {
+  type: 'PURCHASED';
+  buyerId: string;
+  soldPrice: Money;
+  priceAfter: Money;             // price for the next unit, per the after-sale policy
+}
+
+/**
+ * A paid order was cancelled or returned: the buyer got the sold price back and
+ * it comes off the sale proceeds. The unit doesn't go back into stock.
+ */
+export interface SaleRefundedEvent extends DropEventBase {
+  type: 'SALE_REFUNDED';
+  buyerId: string;
+  orderId: string;
+  amount: Money;                 // the sale's soldPrice
+  reason: 'CANCELLED' | 'RETURNED';
+}
+
+/** The drop closed without a sale: its end time passed or an admin cancelled it. */
+export interface DropEndedEvent extends DropEventBase {
+  type: 'DROP_ENDED';
+  reason: DropEndReason;
+  refundPolicy: RefundPolicy;
+}
+
+/**
+ * A viewer's money coming back after the drop ended unsold, one per viewer.
+ * The *Reversed amounts come off the drop's revenue totals.
+ */
+export interface RefundIssuedEvent extends DropEventBase {
+  type: 'REFUND_ISSUED';
+  viewerId: string;
+  kind: 'REFUND' | 'CREDIT';     // REFUND returns fees; CREDIT is wallet credit
+  amount: Money;
+  views: number;                 // charged views the amount covers
+  platformRevenueReversed: Money;
+  supplierShareReversed: Money;
+  qomoShareReversed: Money;
+}
+
+/** The drop's start time arrived and it opened for views. */
+export interface DropStartedEvent extends DropEventBase {
+  type: 'DROP_STARTED';
+}
+
+/** An admin paused the drop; views and purchases are rejected until it resumes. */
+export interface DropPausedEvent extends DropEventBase {
+  type: 'DROP_PAUSED';
+}
+
+export interface DropResumedEvent extends DropEventBase {
+  type: 'DROP_RESUMED';
+}
+
+/**
+ * An admin put the drop back to its initial state. Earlier events stay in the
+ * log for settlement and history; the state is rebuilt from here.
+ */
+export interface DropResetEvent extends DropEventBase {
+  type: 'DROP_RESET';
+  initialState: Omit<DropState, 'version'>;  // initDrop(config) at the time of the reset
+}
+
+export type DropEvent =
+  | ViewChargedEvent
+  | QueuedEvent
+  | LockReleasedEvent
+  | LockExpiredEvent
+  | LockOfferedEvent
+  | QueueEvictedEvent
+  | PurchasePendingEvent
+  | PurchaseRolledBackEvent
+  | PurchasedEvent
+  | SaleRefundedEvent
+  | DropStartedEvent
+  | DropPausedEvent
+  | DropResumedEvent
+  | DropResetEvent
+  | DropEndedEvent
+  | RefundIssuedEvent;
+
+export type DropEventType = DropEvent['type'];
+
+// --- Results ---
+
 export interface ViewEventResult {
   success: boolean;
-  status: 'LOCKED' | 'QUEUED' | 'SOLD' | 'ERROR';
+  status: 'LOCKED' | 'QUEUED' | 'QUEUE_FULL' | 'SOLD' | 'ENDED' | 'NOT_STARTED' | 'PAUSED' | 'INSUFFICIENT_FUNDS' | 'ERROR';
   expiresAt?: number;
   queuePosition?: number;
-  dropAmount: number;
-  newPrice: number;
-  feeCharged: number;
+  dropAmount: Money;
+  newPrice: Money;
+  currency: CurrencyCode;
+  feeCharged: Money;
   state: DropState;
+  events: DropEvent[];
   error?: string;
 }
 
 export interface PurchaseResult {
   success: boolean;
-  soldPrice: number;
-  totalSupplierRevenue: number; // Sold Price + Platform Share
-  totalQomoRevenue: number;     // Platform Share
+  status: 'PURCHASED' | 'PENDING' | 'HOLD_EXPIRED' | 'SOLD' | 'ENDED' | 'NOT_STARTED' | 'PAUSED' | 'LOCKED_BY_OTHER' | 'LOCK_REQUIRED' | 'INSUFFICIENT_FUNDS';
+  soldPrice: Money;              // PENDING: the price the held unit will sell at
+  paymentExpiresAt?: number;     // PENDING: end of the payment window
+  currency: CurrencyCode;
+  totalSupplierRevenue: Money; // Sold Prices so far + Platform Share
+  totalQomoRevenue: Money;     // Platform Share
   state: DropState;
+  events: DropEvent[];
   error?: string;
 }
 
-// --- Helpers ---
+export interface LockReleaseResult {
+  released: boolean;
+  state: DropState;
+  events: DropEvent[];
+}
+
+export interface PurchaseRollbackResult {
+  rolledBack: boolean;
+  state: DropState;
+  events: DropEvent[];
+}
+
+export interface SaleRefundResult {
+  refunded: boolean;
+  state: DropState;
+  events: DropEvent[];
+}
+
+export interface SweepResult {
+  state: DropState;
+  events: DropEvent[];
+}
+
+/** Outcome of an admin pause or resume. */
+export interface LifecycleResult {
+  changed: boolean;
+  state: DropState;
+  events: DropEvent[];
+}
+
+export interface DropEndResult {
+  ended: boolean;
+  state: DropState;
+  events: DropEvent[];
+  refunds: RefundIssuedEvent[];
+}
 
 /**
- * Rounds a number to exactly 2 decimal places.
- * Used to prevent floating point drift in monetary calculations.
+ * How one viewing fee is divided. The parts always sum to `fee` exactly:
+ * priceDropPortion + supplierShare + qomoShare === fee.
  */
-function roundMoney(amount: number): number {
-  return Math.round((amount + Number.EPSILON) * 100) / 100;
+export interface FeeSplit {
+  fee: Money;
+  priceDropPortion: Money;
+  platformRevenue: Money;
+  supplierShare: Money;
+  qomoShare: Money;
+}
+
+export interface ViewOptions {
+  tier?: number;                 // queue priority tier, used by the PRIORITY policy
 }
 
+// --- Constants ---
+
+export const DEFAULT_QUEUE_SETTINGS = {
+  lockDurationMs: 30000,         // 30 seconds
+  claimWindowMs: 15000,          // 15 seconds for the next viewer to take a freed lock
+  paymentWindowMs: 60000,        // 1 minute to complete payment on a held unit
+  maxQueueLength: Infinity,
+  queueEntryTtlMs: Infinity,
+  queuePolicy: 'FIFO' as QueuePolicy,
+};
+
+type QueueSettings = typeof DEFAULT_QUEUE_SETTINGS;
+
+// --- Helpers ---
+
+/**
+ * Splits the viewing fee into its price-drop portion and platform revenue,
+ * then platform revenue into supplier and Qomo shares.
+ * Allocation rule: each share is rounded down to the cent and leftover cents
+ * go to the platform (first split) and then to Qomo (second split).
+ */
+export const splitViewingFee = (config: DropConfig): FeeSplit => {
+  const fee = fromMajor(config.viewingFee);
+  const [priceDropPortion, platformRevenue] =
+    allocateMoney(fee, [config.priceDropShare, config.platformShare], 1);
+  const [supplierShare, qomoShare] =
+    allocateMoney(platformRevenue, [config.supplierShareOfPlatform, config.qomoShareOfPlatform], 1);
+
+  return { fee, priceDropPortion, platformRevenue, supplierShare, qomoShare };
+};
+
+/**
+ * Resolves a drop's lock & queue settings, filling in defaults.
+ */
+export const getQueueSettings = (config: DropConfig): QueueSettings => ({
+  lockDurationMs: config.lockDurationMs ?? DEFAULT_QUEUE_SETTINGS.lockDurationMs,
+  claimWindowMs: config.claimWindowMs ?? DEFAULT_QUEUE_SETTINGS.claimWindowMs,
+  paymentWindowMs: config.paymentWindowMs ?? DEFAULT_QUEUE_SETTINGS.paymentWindowMs,
+  maxQueueLength: config.maxQueueLength ?? DEFAULT_QUEUE_SETTINGS.maxQueueLength,
+  queueEntryTtlMs: config.queueEntryTtlMs ?? DEFAULT_QUEUE_SETTINGS.queueEntryTtlMs,
+  queuePolicy: config.queuePolicy ?? DEFAULT_QUEUE_SETTINGS.queuePolicy,
+});
+
+/**
+ * Resolves a drop's inventory settings, filling in defaults.
+ */
+export const getInventorySettings = (config: DropConfig) => ({
+  quantity: config.quantity ?? 1,
+  afterSalePolicy: config.afterSalePolicy ?? 'CONTINUE' as AfterSalePolicy,
+  resetPrice: fromMajor(config.resetPrice ?? config.basePrice),
+});
+
+/**
+ * The drop's start time (ms epoch), or null if it is live from creation.
+ */
+export const getDropStartsAt = (config: DropConfig): number | null =>
+  config.startsAt ? Date.parse(config.startsAt) : null;
+
+/**
+ * The drop's end time (ms epoch), or null if it runs until sold.
+ */
+export const getDropEndsAt = (config: DropConfig): number | null =>
+  config.endsAt ? Date.parse(config.endsAt) : null;
+
+/** SOLD and ENDED are final; every other phase can still change. */
+export const isDropClosed = (state: DropState): boolean =>
+  state.phase === 'SOLD' || state.phase === 'ENDED';
+
+/**
+ * True once the drop's end time has passed while it is still open.
+ */
+export const isDropExpired = (state: DropState, config: DropConfig, now: number = Date.now()): boolean => {
+  const endsAt = getDropEndsAt(config);
+  return !isDropClosed(state) && endsAt !== null && endsAt <= now;
+};
+
+const findRefundableSale = (state: DropState, buyerId: string, amount: Money): number =>
+  state.sales.findIndex(sale => sale.buyerId === buyerId && sale.soldPrice === amount && sale.refundedAt === undefined);
+
+const isQueued = (state: DropState, viewerId: string) =>
+  state.queue.some(entry => entry.viewerId === viewerId);
+
+/**
+ * Queue in service order for the given policy. Under LOTTERY every entry has
+ * the same chance, so join order is returned.
+ */
+const orderQueue = (queue: QueueEntry[], policy: QueuePolicy): QueueEntry[] => {
+  if (policy !== 'PRIORITY') return queue;
+  // Array.prototype.sort is stable, so join order is kept within a tier.
+  return [...queue].sort((a, b) => b.tier - a.tier);
+};
+
+/**
+ * 1-based position of a viewer in service order, or 0 if not queued.
+ */
+export const getQueuePosition = (state: DropState, config: DropConfig, viewerId: string): number =>
+  orderQueue(state.queue, getQueueSettings(config).queuePolicy)
+    .findIndex(entry => entry.viewerId === viewerId) + 1;
+
+/**
+ * Projects the state for one viewer, or for the public when `viewerId` is
+ * omitted. Only the lock holder sees the current price.
+ */
+export const toViewerState = (state: DropState, config: DropConfig, viewerId?: string): ViewerDropState => {
+  const ownId = (id: string | null) => (viewerId !== undefined && id === viewerId ? id : null);
+  const activeViewerId = ownId(state.activeViewerId);
+  const ownPurchase = state.pendingPurchase?.buyerId === viewerId ? state.pendingPurchase : undefined;
+
+  return {
+    productId: state.productId,
+    currency: state.currency,
+    version: state.version,
+    phase: state.phase,
+    isSold: state.isSold,
+    unitsRemaining: state.unitsRemaining,
+    unitsSold: state.sales.length,
+    currentPrice: activeViewerId ? state.currentPrice : null,
+    ...(isDropClosed(state) && state.soldPrice !== undefined ? { soldPrice: state.soldPrice } : {}),
+    ...(state.endedAt !== undefined ? { endedAt: state.endedAt } : {}),
+    ...(state.endReason ? { endReason: state.endReason } : {}),
+    isLocked: !!state.activeViewerId || !!state.claimViewerId,
+    activeViewerId,
+    activeViewExpiresAt: state.activeViewExpiresAt,
+    claimViewerId: ownId(state.claimViewerId),
+    claimExpiresAt: state.claimExpiresAt,
+    queueLength: state.queue.length,
+    queuePosition: viewerId !== undefined ? getQueuePosition(state, config, viewerId) : 0,
+    isUnitHeld: !!state.pendingPurchase,
+    ...(ownPurchase ? { pendingPurchase: ownPurchase } : {}),
+  };
+};
+
+/**
+ * The events a viewer may see: drop-wide ones and those about them.
+ */
+export const toViewerEvents = (events: DropEvent[], viewerId?: string): DropEvent[] =>
+  events.filter((event) => {
+    const subject = 'viewerId' in event ? event.viewerId : 'buyerId' in event ? event.buyerId : undefined;
+    return subject === undefined || subject === viewerId;
+  });
+
+/**
+ * Picks who is offered a freed lock.
+ */
+const pickNextClaimant = (queue: QueueEntry[], policy: QueuePolicy, random: () => number): QueueEntry => {
+  if (policy === 'LOTTERY') {
+    return queue[Math.floor(random() * queue.length)];
+  }
+  return orderQueue(queue, policy)[0];
+};
+
+// --- Event Log ---
+
+/**
+ * Folds a single event into the drop state and bumps its version.
+ * This is the only place DropState is mutated; every engine function emits
+ * events and derives its resulting state by folding them.
+ */
+export const applyDropEvent = (state: DropState, event: DropEvent): DropState => ({
+  ...reduceDropEvent(state, event),
+  version: state.version + 1,
+});
+
+const reduceDropEvent = (state: DropState, event: DropEvent): DropState => {
+  switch (event.type) {
+    case 'VIEW_CHARGED':
+      return {
+        ...state,
+        currentPrice: event.priceAfter,
+        totalViews: state.totalViews + 1,
+        totalPlatformRevenue: addMoney(state.totalPlatformRevenue, event.platformRevenue),
+        totalSupplierPlatformRevenue: addMoney(state.totalSupplierPlatformRevenue, event.supplierShare),
+        totalQomoRevenue: addMoney(state.totalQomoRevenue, event.qomoShare),
+        activeViewerId: event.viewerId,
+        activeViewExpiresAt: event.expiresAt,
+        claimViewerId: null,
+        claimExpiresAt: null,
+        queue: state.queue.filter(entry => entry.viewerId !== event.viewerId),
+      };
+
+    case 'QUEUED':
+      if (isQueued(state, event.viewerId)) return state;
+      return {
+        ...state,
+        queue: [...state.queue, { viewerId: event.viewerId, joinedAt: event.at, tier: event.tier }],
+      };
+
+    case 'LOCK_RELEASED':
+    case 'LOCK_EXPIRED':
+      if (state.activeViewerId !== event.viewerId) return state;
+      return { ...state, activeViewerId: null, activeViewExpiresAt: null };
+
+    case 'LOCK_OFFERED':
+      return { ...state, claimViewerId: event.viewerId, claimExpiresAt: event.claimExpiresAt };
+
+    case 'QUEUE_EVICTED': {
+      const wasClaimant = state.claimViewerId === event.viewerId;
+      return {
+        ...state,
+        queue: state.queue.filter(entry => entry.viewerId !== event.viewerId),
+        claimViewerId: wasClaimant ? null : state.claimViewerId,
+        claimExpiresAt: wasClaimant ? null : state.claimExpiresAt,
+      };
+    }
+
+    case 'PURCHASE_PENDING':
+      return {
+        ...state,
+        pendingPurchase: {
+          buyerId: event.buyerId,
+          price: event.price,
+          startedAt: event.at,
+          expiresAt: event.expiresAt,
+          lockExpiresAt: state.activeViewerId === event.buyerId ? state.activeViewExpiresAt : null,
+        },
+        activeViewerId: event.buyerId,
+        activeViewExpiresAt: state.activeViewerId === event.buyerId ? state.activeViewExpiresAt : null,
+      };
+
+    case 'PURCHASE_ROLLED_BACK':
+      return {
+        ...state,
+        pendingPurchase: undefined,
+        activeViewerId: event.lockExpiresAt !== null ? event.buyerId : null,
+        activeViewExpiresAt: event.lockExpiresAt,
+      };
+
+    case 'PURCHASED': {
+      const unitsRemaining = state.unitsRemaining - 1;
+      const soldOut = unitsRemaining <= 0;
+      return {
+        ...state,
+        phase: soldOut ? 'SOLD' : state.phase,
+        isSold: soldOut,
+        unitsRemaining,
+        sales: [...state.sales, { buyerId: event.buyerId, soldPrice: event.soldPrice, at: event.at }],
+        buyerId: event.buyerId,
+        soldPrice: event.soldPrice,
+        currentPrice: event.priceAfter,
+        activeViewerId: null, // Clear lock
+        activeViewExpiresAt: null,
+        claimViewerId: null,
+        claimExpiresAt: null,
+        pendingPurchase: undefined,
+        queue: soldOut ? [] : state.queue, // The queue waits for the next unit
+      };
+    }
+
+    case 'SALE_REFUNDED': {
+      const index = findRefundableSale(state, event.buyerId, event.amount);
+      return {
+        ...state,
+        sales: state.sales.map((sale, i) => (i === index ? { ...sale, refundedAt: event.at } : sale)),
+      };
+    }
+
+    case 'DROP_STARTED':
+      return { ...state, phase: 'LIVE' };
+
+    case 'DROP_PAUSED':
+      // Withdraw any pending lock offer; the claimant keeps their queue place
+      return { ...state, phase: 'PAUSED', claimViewerId: null, claimExpiresAt: null };
+
+    case 'DROP_RESUMED':
+      return { ...state, phase: 'LIVE' };
+
+    case 'DROP_ENDED':
+      return {
+        ...state,
+        phase: 'ENDED',
+        endedAt: event.at,
+        endReason: event.reason,
+        activeViewerId: null,
+        activeViewExpiresAt: null,
+        claimViewerId: null,
+        claimExpiresAt: null,
+        pendingPurchase: undefined,
+        queue: [],
+      };
+
+    case 'REFUND_ISSUED':
+      return {
+        ...state,
+        totalPlatformRevenue: subtractMoney(state.totalPlatformRevenue, event.platformRevenueReversed),
+        totalSupplierPlatformRevenue: subtractMoney(state.totalSupplierPlatformRevenue, event.supplierShareReversed),
+        totalQomoRevenue: subtractMoney(state.totalQomoRevenue, event.qomoShareReversed),
+      };
+
+    case 'DROP_RESET':
+      return { ...event.initialState, version: state.version };
+  }
+};
+
+const foldEvents = (state: DropState, events: DropEvent[]): DropState =>
+  events.reduce(applyDropEvent, state);
+
+const lastResetIndex = (events: DropEvent[]) =>
+  events.map(event => event.type).lastIndexOf('DROP_RESET');
+
+/**
+ * The events since the drop was last reset: the ones its current state,
+ * revenue totals and refunds come from.
+ */
+export const sinceLastReset = (events: DropEvent[]): DropEvent[] =>
+  events.slice(lastResetIndex(events) + 1);
+
+/**
+ * Rebuilds a drop's state from its full event log. Versions count every
+ * event, but the state itself starts over at the last DROP_RESET.
+ */
+export const replayDrop = (config: DropConfig, events: DropEvent[]): DropState => {
+  const reset = lastResetIndex(events);
+  if (reset < 0) return foldEvents(initDrop(config), events);
+
+  const { initialState } = events[reset] as DropResetEvent;
+  return foldEvents({ ...initialState, version: reset + 1 }, events.slice(reset + 1));
+};
+
 // --- Core Functions ---
 
+const viewRejected = (
+  state: DropState,
+  status: ViewEventResult['status'],
+  error: string,
+  events: DropEvent[] = []
+): ViewEventResult => ({
+  success: false,
+  status,
+  dropAmount: ZERO,
+  newPrice: state.currentPrice,
+  currency: state.currency,
+  feeCharged: ZERO,
+  state,
+  events,
+  error,
+});
+
+const purchaseRejected = (state: DropState, status: PurchaseResult['status'], error: string): PurchaseResult => ({
+  success: false,
+  status,
+  soldPrice: ZERO,
+  currency: state.currency,
+  totalSupplierRevenue: ZERO,
+  totalQomoRevenue: ZERO,
+  state,
+  events: [],
+  error,
+});
+
 /**
  * Initializes the state for a new product drop.
  */
 export const initDrop = (config: DropConfig): DropState => {
   return {
     productId: config.productId,
-    currentPrice: roundMoney(config.basePrice),
+    currency: config.currency,
+    version: 0,
+    currentPrice: fromMajor(config.basePrice),
+    phase: getDropStartsAt(config) !== null ? 'SCHEDULED' : 'LIVE',
     isSold: false,
     totalViews: 0,
+    unitsRemaining: getInventorySettings(config).quantity,
+    sales: [],
     activeViewerId: null,
     activeViewExpiresAt: null,
     queue: [],
-    totalPlatformRevenue: 0,
-    totalSupplierPlatformRevenue: 0,
-    totalQomoRevenue: 0,
+    claimViewerId: null,
+    claimExpiresAt: null,
+    totalPlatformRevenue: ZERO,
+    totalSupplierPlatformRevenue: ZERO,
+    totalQomoRevenue: ZERO,
   };
 };
 
@@ -101,27 +813,77 @@ export const initDrop = (config: DropConfig): DropState => {
 export const applyView = (
   state: DropState, 
   config: DropConfig, 
-  viewerId: string
+  viewerId: string,
+  options: ViewOptions = {},
+  now: number = Date.now()
 ): ViewEventResult => {
   if (state.isSold) {
     return {
       success: false,
       status: 'SOLD',
-      dropAmount: 0,
+      dropAmount: ZERO,
       newPrice: state.currentPrice,
-      feeCharged: 0,
+      currency: state.currency,
+      feeCharged: ZERO,
       state,
+      events: [],
       error: "Product is already sold."
     };
   }
 
-  const now = Date.now();
-  const LOCK_DURATION = 30000; // 30 seconds
+  const settings = getQueueSettings(config);
 
-  // Check existing lock validity
-  const isLocked = state.activeViewerId && state.activeViewExpiresAt && state.activeViewExpiresAt > now;
+  if (state.phase === 'ENDED' || isDropExpired(state, config, now)) {
+    return viewRejected(state, 'ENDED', "This drop has ended.");
+  }
 
-  if (isLocked) {
+  // Bring the drop up to date first: open it if its start time has come,
+  // expire a stale lock, evict missed claims and stale queue entries, and
+  // offer a free lock to the next viewer.
+  const sweep = sweepDrop(state, config, now);
+  const events: DropEvent[] = [...sweep.events];
+  state = sweep.state;
+
+  if (state.phase === 'SCHEDULED') {
+    return viewRejected(state, 'NOT_STARTED', "This drop hasn't started yet.", events);
+  }
+  if (state.phase === 'PAUSED') {
+    return viewRejected(state, 'PAUSED', "This drop is paused.", events);
+  }
+
+  const queueViewer = (): ViewEventResult => {
+    if (!isQueued(state, viewerId)) {
+      if (state.queue.length >= settings.maxQueueLength) {
+        return {
+          success: false,
+          status: 'QUEUE_FULL',
+          dropAmount: ZERO,
+          newPrice: state.currentPrice,
+          currency: state.currency,
+          feeCharged: ZERO,
+          state,
+          events,
+          error: "The queue for this drop is full."
+        };
+      }
+      events.push({ type: 'QUEUED', productId: state.productId, at: now, viewerId, tier: options.tier ?? 0 });
+    }
+    const newState = foldEvents(state, events.slice(sweep.events.length));
+
+    return {
+      success: false,
+      status: 'QUEUED',
+      queuePosition: getQueuePosition(newState, config, viewerId),
+      dropAmount: ZERO,
+      newPrice: newState.currentPrice,
+      currency: state.currency,
+      feeCharged: ZERO,
+      state: newState,
+      events
+    };
+  };
+
+  if (state.activeViewerId) {
     if (state.activeViewerId === viewerId) {
       // User already holds the lock. Return current state without charging again.
       // This allows UI to refresh state without double-charging.
@@ -129,101 +891,62 @@ export const applyView = (
         success: true,
         status: 'LOCKED',
         expiresAt: state.activeViewExpiresAt!,
-        dropAmount: 0,
+        dropAmount: ZERO,
         newPrice: state.currentPrice,
-        feeCharged: 0,
-        state
-      };
-    } else {
-      // Locked by someone else. Queue the user.
-      let newQueue = [...state.queue];
-      if (!newQueue.includes(viewerId)) {
-        newQueue.push(viewerId);
-      }
-      
-      const newState = { ...state, queue: newQueue };
-      
-      return {
-        success: false,
-        status: 'QUEUED',
-        queuePosition: newQueue.indexOf(viewerId) + 1,
-        dropAmount: 0,
-        newPrice: state.currentPrice,
-        feeCharged: 0,
-        state: newState
+        currency: state.currency,
+        feeCharged: ZERO,
+        state,
+        events
       };
     }
+
+    // Locked by someone else. Queue the user.
+    return queueViewer();
   }
 
-  // Not locked (or lock expired). Check Queue Priority.
-  // We perform a lazy cleanup of the lock here implicitly by overwriting it if successful.
-  // If there is a queue, and the current user is NOT the first one, they must wait.
-  // Exception: If queue is empty, anyone can take it.
-  
-  if (state.queue.length > 0) {
-    // Basic queue logic: first in, first out.
-    // If user is in queue but not first:
-    if (state.queue[0] !== viewerId) {
-      let newQueue = [...state.queue];
-      if (!newQueue.includes(viewerId)) {
-        newQueue.push(viewerId);
-      }
-      // Ensure we clear any expired lock data from state to be clean, though logic handles it.
-      const newState = { 
-        ...state, 
-        activeViewerId: null, 
-        activeViewExpiresAt: null, 
-        queue: newQueue 
-      };
-      
-      return {
-        success: false,
-        status: 'QUEUED',
-        queuePosition: newQueue.indexOf(viewerId) + 1,
-        dropAmount: 0,
-        newPrice: state.currentPrice,
-        feeCharged: 0,
-        state: newState
-      };
-    }
+  // The lock is free but has been offered to the queue head; everyone else waits.
+  if (state.claimViewerId && state.claimViewerId !== viewerId) {
+    return queueViewer();
   }
 
   // --- GRANT LOCK & APPLY DROP ---
-  // User is eligible (No lock exists, and they are either queue head or queue is empty).
+  // User is eligible (No lock exists, and they either hold the claim or the queue is empty).
 
-  // 1. Calculate distribution amounts
-  const priceDropAmount = roundMoney(config.viewingFee * config.priceDropShare);
-  const platformRevenue = roundMoney(config.viewingFee * config.platformShare);
-  
-  // 2. Split platform revenue
-  const supplierShare = roundMoney(platformRevenue * config.supplierShareOfPlatform);
-  const qomoShare = roundMoney(platformRevenue * config.qomoShareOfPlatform);
+  // 1. Split the fee (exact to the cent)
+  const split = splitViewingFee(config);
+
+  // 2. Let the price curve decide how far the price moves (not at all once a
+  //    HOLD drop has sold a unit)
+  const priceHeld = getInventorySettings(config).afterSalePolicy === 'HOLD' && state.sales.length > 0;
+  const priceDropAmount = priceHeld ? ZERO : computePriceDrop({
+    config,
+    split,
+    currentPrice: state.currentPrice,
+    viewNumber: state.totalViews + 1,
+  });
 
   // 3. Calculate new price
-  let nextPrice = state.currentPrice - priceDropAmount;
-  if (nextPrice < config.minPrice) {
-    nextPrice = config.minPrice;
-  }
-  nextPrice = roundMoney(nextPrice);
-  const effectiveDrop = roundMoney(state.currentPrice - nextPrice);
-
-  // 4. Update Queue (Remove user if they were in it)
-  const newQueue = state.queue.filter(id => id !== viewerId);
-
-  // 5. Update State
-  const newState: DropState = {
-    ...state,
-    currentPrice: nextPrice,
-    totalViews: state.totalViews + 1,
-    totalPlatformRevenue: roundMoney(state.totalPlatformRevenue + platformRevenue),
-    totalSupplierPlatformRevenue: roundMoney(state.totalSupplierPlatformRevenue + supplierShare),
-    totalQomoRevenue: roundMoney(state.totalQomoRevenue + qomoShare),
-    
-    // Set Lock
-    activeViewerId: viewerId,
-    activeViewExpiresAt: now + LOCK_DURATION,
-    queue: newQueue
+  const nextPrice = maxMoney(subtractMoney(state.currentPrice, priceDropAmount), fromMajor(config.minPrice));
+  const effectiveDrop = subtractMoney(state.currentPrice, nextPrice);
+
+  // 4. Record the charge; folding it takes the lock and removes the user from the queue.
+  const charge: DropEvent = {
+    type: 'VIEW_CHARGED',
+    productId: state.productId,
+    at: now,
+    viewerId,
+    fee: split.fee,
+    priceDropPortion: split.priceDropPortion,
+    dropAmount: effectiveDrop,
+    priceAfter: nextPrice,
+    platformRevenue: split.platformRevenue,
+    supplierShare: split.supplierShare,
+    qomoShare: split.qomoShare,
+    expiresAt: now + settings.lockDurationMs,
   };
+  events.push(charge);
+
+  const newState = applyDropEvent(state, charge);
 
   return {
     success: true,
@@ -231,8 +954,10 @@ export const applyView = (
     expiresAt: newState.activeViewExpiresAt!,
     dropAmount: effectiveDrop,
     newPrice: newState.currentPrice,
-    feeCharged: config.viewingFee,
+    currency: state.currency,
+    feeCharged: split.fee,
     state: newState,
+    events,
   };
 };
 
@@ -241,73 +966,445 @@ export const applyView = (
  */
 export const releaseLock = (
     state: DropState, 
-    viewerId: string
-): DropState => {
-    if (state.activeViewerId === viewerId) {
-        return {
-            ...state,
-            activeViewerId: null,
-            activeViewExpiresAt: null
-        };
+    viewerId: string,
+    now: number = Date.now()
+): LockReleaseResult => {
+    // A buyer who is paying keeps the lock until the purchase commits or rolls back
+    if (state.activeViewerId !== viewerId || state.pendingPurchase) {
+        return { released: false, state, events: [] };
     }
-    return state;
+
+    const events: DropEvent[] = [
+        { type: 'LOCK_RELEASED', productId: state.productId, at: now, viewerId }
+    ];
+    return { released: true, state: foldEvents(state, events), events };
 };
 
 /**
- * Executes a purchase for the product.
+ * Removes a blocked viewer from the drop: releases their lock and evicts them
+ * from the queue or an offered lock. A lock held while paying is left to the
+ * purchase to settle. Run sweepDrop afterwards to hand the lock on.
  */
-export const applyPurchase = (
-  state: DropState, 
-  config: DropConfig, 
-  buyerId: string
+export const evictViewer = (
+    state: DropState,
+    viewerId: string,
+    now: number = Date.now()
+): LockReleaseResult => {
+    const release = releaseLock(state, viewerId, now);
+    const isWaiting = isQueued(release.state, viewerId) || release.state.claimViewerId === viewerId;
+    const events: DropEvent[] = [
+        ...release.events,
+        ...(isWaiting ? [{ type: 'QUEUE_EVICTED' as const, productId: state.productId, at: now, viewerId, reason: 'BLOCKED' as const }] : []),
+    ];
+    return { released: events.length > 0, state: foldEvents(state, events), events };
+};
+
+/**
+ * Runs time-based transitions for a drop at `now`:
+ * 1. Rolls back a purchase whose payment window has passed, then expires a
+ *    lock whose window has passed (never while its holder is paying).
+ * 2. Evicts a viewer who didn't claim an offered lock in time, and queue
+ *    entries older than the queue TTL.
+ * 3. Offers a free lock to the next viewer (per queue policy) for a bounded
+ *    claim window. `random` draws the LOTTERY winner; the event records the
+ *    result so replays stay deterministic.
+ */
+export const sweepDrop = (
+  state: DropState,
+  config: DropConfig,
+  now: number = Date.now(),
+  random: () => number = Math.random
+): SweepResult => {
+  if (isDropClosed(state)) return { state, events: [] };
+
+  const settings = getQueueSettings(config);
+
+  const events: DropEvent[] = [];
+  const emit = (event: DropEvent) => {
+    events.push(event);
+    state = applyDropEvent(state, event);
+  };
+
+  if (state.phase === 'SCHEDULED') {
+    const startsAt = getDropStartsAt(config);
+    if (startsAt !== null && startsAt > now) return { state, events };
+    emit({ type: 'DROP_STARTED', productId: state.productId, at: now });
+  }
+
+  if (state.pendingPurchase && state.pendingPurchase.expiresAt <= now) {
+    emit({
+      type: 'PURCHASE_ROLLED_BACK',
+      productId: state.productId,
+      at: now,
+      buyerId: state.pendingPurchase.buyerId,
+      reason: 'PAYMENT_TIMEOUT',
+      lockExpiresAt: null,
+    });
+  }
+
+  if (state.activeViewerId && !state.pendingPurchase && (!state.activeViewExpiresAt || state.activeViewExpiresAt <= now)) {
+    emit({ type: 'LOCK_EXPIRED', productId: state.productId, at: now, viewerId: state.activeViewerId });
+  }
+
+  if (state.claimViewerId && (!state.claimExpiresAt || state.claimExpiresAt <= now)) {
+    emit({ type: 'QUEUE_EVICTED', productId: state.productId, at: now, viewerId: state.claimViewerId, reason: 'CLAIM_MISSED' });
+  }
+
+  // The current claimant is covered by their claim window instead of the TTL.
+  state.queue
+    .filter(entry => entry.viewerId !== state.claimViewerId && entry.joinedAt + settings.queueEntryTtlMs <= now)
+    .forEach(entry => {
+      emit({ type: 'QUEUE_EVICTED', productId: state.productId, at: now, viewerId: entry.viewerId, reason: 'TTL_EXPIRED' });
+    });
+
+  // Paused drops keep their queue but nobody is offered the lock
+  if (state.phase === 'LIVE' && !state.activeViewerId && !state.claimViewerId && state.queue.length > 0) {
+    emit({
+      type: 'LOCK_OFFERED',
+      productId: state.productId,
+      at: now,
+      viewerId: pickNextClaimant(state.queue, settings.queuePolicy, random).viewerId,
+      claimExpiresAt: now + settings.claimWindowMs,
+    });
+  }
+
+  return { state, events };
+};
+
+/**
+ * Earliest time at which sweepDrop would change this drop, or null if nothing is pending.
+ */
+export const nextSweepAt = (state: DropState, config: DropConfig): number | null => {
+  if (isDropClosed(state)) return null;
+  if (state.phase === 'SCHEDULED') {
+    return getDropStartsAt(config) ?? Date.now();
+  }
+  const { queueEntryTtlMs } = getQueueSettings(config);
+  const deadlines = [
+    getDropEndsAt(config),
+    state.pendingPurchase?.expiresAt ?? null,
+    state.pendingPurchase ? null : state.activeViewExpiresAt,
+    state.claimExpiresAt,
+    ...state.queue.map(entry => entry.joinedAt + queueEntryTtlMs),
+  ].filter((t): t is number => t !== null && Number.isFinite(t));
+  return deadlines.length > 0 ? Math.min(...deadlines) : null;
+};
+
+const purchaseTotals = (state: DropState, soldPrice: Money) => ({
+  // Supplier gets every sale price PLUS their accumulated share of the view fees.
+  totalSupplierRevenue: addMoney(soldPrice, state.totalSupplierPlatformRevenue, ...state.sales.map(sale => sale.soldPrice)),
+  // Qomo gets their accumulated share of the view fees.
+  totalQomoRevenue: state.totalQomoRevenue,
+});
+
+/**
+ * First phase of a purchase: holds one unit at the current price for the
+ * buyer's payment window. The buyer keeps the lock while paying, so everyone
+ * else queues. Follow with commitPurchase once paid, or rollbackPurchase.
+ */
+export const beginPurchase = (
+  state: DropState,
+  config: DropConfig,
+  buyerId: string,
+  now: number = Date.now()
 ): PurchaseResult => {
   if (state.isSold) {
     return {
       success: false,
-      soldPrice: 0,
-      totalSupplierRevenue: 0,
-      totalQomoRevenue: 0,
+      status: 'SOLD',
+      soldPrice: ZERO,
+      currency: state.currency,
+      totalSupplierRevenue: ZERO,
+      totalQomoRevenue: ZERO,
       state,
+      events: [],
       error: "Product is already sold."
     };
   }
 
-  // Enforce lock ownership for purchase
-  const now = Date.now();
-  if (state.activeViewerId && (state.activeViewerId !== buyerId && state.activeViewExpiresAt && state.activeViewExpiresAt > now)) {
-      return {
-          success: false,
-          soldPrice: 0,
-          totalSupplierRevenue: 0,
-          totalQomoRevenue: 0,
-          state,
-          error: "Product is currently locked by another user."
-      }
+  if (state.phase === 'ENDED' || isDropExpired(state, config, now)) {
+    return purchaseRejected(state, 'ENDED', "This drop has ended.");
+  }
+  if (state.phase === 'SCHEDULED') {
+    return purchaseRejected(state, 'NOT_STARTED', "This drop hasn't started yet.");
+  }
+  if (state.phase === 'PAUSED') {
+    return purchaseRejected(state, 'PAUSED', "This drop is paused.");
+  }
+
+  const pending = state.pendingPurchase;
+  if (pending && pending.expiresAt > now) {
+    if (pending.buyerId !== buyerId) {
+      return purchaseRejected(state, 'LOCKED_BY_OTHER', "Another buyer is completing payment for this product.");
+    }
+    // Already holding a unit: carry on with the same hold
+    return {
+      success: true,
+      status: 'PENDING',
+      soldPrice: pending.price,
+      paymentExpiresAt: pending.expiresAt,
+      currency: state.currency,
+      ...purchaseTotals(state, pending.price),
+      state,
+      events: [],
+    };
   }
 
-  const soldPrice = state.currentPrice;
+  // Bring the drop up to date: a stale hold or lock is released first
+  const sweep = sweepDrop(state, config, now);
+  state = sweep.state;
 
-  // Supplier gets the final sale price PLUS their accumulated share of the view fees.
-  const totalSupplierRevenue = roundMoney(soldPrice + state.totalSupplierPlatformRevenue);
-  
-  // Qomo gets their accumulated share of the view fees.
-  const totalQomoRevenue = state.totalQomoRevenue;
-
-  const newState: DropState = {
-    ...state,
-    isSold: true,
-    buyerId: buyerId,
-    soldPrice: soldPrice,
-    activeViewerId: null, // Clear lock
-    activeViewExpiresAt: null,
-    queue: [] // Clear queue
+  // Only the viewer holding the lock may buy: the paid view is what earns the right.
+  // The sweep above has already cleared an expired lock or claim.
+  if (state.activeViewerId !== buyerId) {
+    const isTakenByOther = !!state.activeViewerId || (!!state.claimViewerId && state.claimViewerId !== buyerId);
+    return {
+      ...(isTakenByOther
+        ? purchaseRejected(state, 'LOCKED_BY_OTHER', "Product is currently locked by another user.")
+        : purchaseRejected(state, 'LOCK_REQUIRED', "Reveal the price first: only the viewer holding the lock can buy.")),
+      events: sweep.events,
+    };
+  }
+
+  const price = state.currentPrice;
+  const events: DropEvent[] = [
+    ...sweep.events,
+    {
+      type: 'PURCHASE_PENDING',
+      productId: state.productId,
+      at: now,
+      buyerId,
+      price,
+      expiresAt: now + getQueueSettings(config).paymentWindowMs,
+    },
+  ];
+  const newState = foldEvents(state, events.slice(sweep.events.length));
+
+  return {
+    success: true,
+    status: 'PENDING',
+    soldPrice: price,
+    paymentExpiresAt: newState.pendingPurchase!.expiresAt,
+    currency: state.currency,
+    ...purchaseTotals(state, price),
+    state: newState,
+    events,
   };
+};
+
+/**
+ * Second phase: the buyer has paid, so the held unit is sold at the held
+ * price. While stock remains the queue stays and the next viewer can be
+ * offered the lock.
+ */
+export const commitPurchase = (
+  state: DropState,
+  config: DropConfig,
+  buyerId: string,
+  now: number = Date.now()
+): PurchaseResult => {
+  if (state.phase === 'ENDED') {
+    return purchaseRejected(state, 'ENDED', "This drop has ended.");
+  }
+
+  const pending = state.pendingPurchase;
+  if (!pending || pending.buyerId !== buyerId || pending.expiresAt <= now) {
+    return purchaseRejected(state, 'HOLD_EXPIRED', "The hold on this product has expired. Please try again.");
+  }
+
+  const soldPrice = pending.price;
+  const inventory = getInventorySettings(config);
+  const priceAfter = inventory.afterSalePolicy === 'RESET' ? inventory.resetPrice : soldPrice;
+
+  const events: DropEvent[] = [
+    { type: 'PURCHASED', productId: state.productId, at: now, buyerId, soldPrice, priceAfter }
+  ];
 
   return {
     success: true,
+    status: 'PURCHASED',
     soldPrice,
-    totalSupplierRevenue,
-    totalQomoRevenue,
-    state: newState,
+    currency: state.currency,
+    ...purchaseTotals(state, soldPrice),
+    state: foldEvents(state, events),
+    events,
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Records the refund of a paid order's sale (SALE_REFUNDED). The oldest sale to
+ * `buyerId` at `amount` that isn't refunded yet is the one marked; nothing is
+ * recorded if there is none. Moving the money is the caller's job.
+ */
+export const refundSale = (
+  state: DropState,
+  buyerId: string,
+  amount: Money,
+  orderId: string,
+  reason: SaleRefundedEvent['reason'],
+  now: number = Date.now()
+): SaleRefundResult => {
+  if (findRefundableSale(state, buyerId, amount) < 0) {
+    return { refunded: false, state, events: [] };
+  }
+  const events: DropEvent[] = [
+    { type: 'SALE_REFUNDED', productId: state.productId, at: now, buyerId, orderId, amount, reason },
+  ];
+  return { refunded: true, state: foldEvents(state, events), events };
+};
+
+/**
+ * Releases a held unit after a failed payment. The buyer gets back the lock
+ * time they had left when the hold started, so they can fix their payment and
+ * retry; with no lock to restore, the lock goes to the next viewer in the queue.
+ */
+export const rollbackPurchase = (
+  state: DropState,
+  config: DropConfig,
+  buyerId: string,
+  now: number = Date.now()
+): PurchaseRollbackResult => {
+  const pending = state.pendingPurchase;
+  if (!pending || pending.buyerId !== buyerId) {
+    return { rolledBack: false, state, events: [] };
+  }
+
+  const remainingLockMs = pending.lockExpiresAt !== null ? pending.lockExpiresAt - pending.startedAt : 0;
+  const rollback: DropEvent = {
+    type: 'PURCHASE_ROLLED_BACK',
+    productId: state.productId,
+    at: now,
+    buyerId,
+    reason: 'PAYMENT_FAILED',
+    lockExpiresAt: remainingLockMs > 0 ? now + remainingLockMs : null,
+  };
+  const handOff = sweepDrop(applyDropEvent(state, rollback), config, now);
+  return { rolledBack: true, state: handOff.state, events: [rollback, ...handOff.events] };
+};
+
+/**
+ * Buys one unit at the current price in one step (hold, then commit), for
+ * callers whose payment can't fail.
+ */
+export const applyPurchase = (
+  state: DropState, 
+  config: DropConfig, 
+  buyerId: string,
+  now: number = Date.now()
+): PurchaseResult => {
+  const hold = beginPurchase(state, config, buyerId, now);
+  if (!hold.success) return hold;
+
+  const commit = commitPurchase(hold.state, config, buyerId, now);
+  return { ...commit, events: [...hold.events, ...commit.events] };
+};
+
+/**
+ * Works out each viewer's refund under the drop's refund policy from the
+ * VIEW_CHARGED entries in its event log, leaving out viewers who bought a
+ * unit. Amounts are sums of what each view recorded, so they are exact to the
+ * cent. Viewers are listed in order of their first view.
+ */
+export const computeRefunds = (
+  config: DropConfig,
+  log: DropEvent[],
+  at: number = Date.now()
+): RefundIssuedEvent[] => {
+  const policy = config.refundPolicy ?? 'NONE';
+  if (policy === 'NONE') return [];
+
+  const buyers = new Set(log.flatMap(event => event.type === 'PURCHASED' ? [event.buyerId] : []));
+  const byViewer = new Map<string, ViewChargedEvent[]>();
+  log.forEach((event) => {
+    if (event.type !== 'VIEW_CHARGED' || buyers.has(event.viewerId)) return;
+    byViewer.set(event.viewerId, [...(byViewer.get(event.viewerId) || []), event]);
+  });
+
+  const sum = (views: ViewChargedEvent[], pick: (view: ViewChargedEvent) => Money) =>
+    addMoney(ZERO, ...views.map(pick));
+
+  return [...byViewer.entries()]
+    .map(([viewerId, views]): RefundIssuedEvent => {
+      const full = policy === 'FULL';
+      return {
+        type: 'REFUND_ISSUED',
+        productId: config.productId,
+        at,
+        viewerId,
+        kind: full ? 'REFUND' : 'CREDIT',
+        amount: sum(views, view => full ? view.fee : view.priceDropPortion),
+        views: views.length,
+        platformRevenueReversed: full ? sum(views, view => view.platformRevenue) : ZERO,
+        supplierShareReversed: full ? sum(views, view => view.supplierShare) : ZERO,
+        qomoShareReversed: full ? sum(views, view => view.qomoShare) : ZERO,
+      };
+    })
+    .filter(refund => refund.amount > 0);
+};
+
+/**
+ * Ends a drop that hasn't sold out (end time reached or admin cancel) and
+ * issues refunds per its refund policy. `log` is the drop's event log so far;
+ * views from before its last reset aren't refunded.
+ */
+export const endDrop = (
+  state: DropState,
+  config: DropConfig,
+  log: DropEvent[],
+  reason: DropEndReason,
+  now: number = Date.now()
+): DropEndResult => {
+  if (isDropClosed(state)) {
+    return { ended: false, state, events: [], refunds: [] };
+  }
+
+  const refunds = computeRefunds(config, sinceLastReset(log), now);
+  const events: DropEvent[] = [
+    { type: 'DROP_ENDED', productId: state.productId, at: now, reason, refundPolicy: config.refundPolicy ?? 'NONE' },
+    ...refunds,
+  ];
+
+  return { ended: true, state: foldEvents(state, events), events, refunds };
+};
+
+/**
+ * Opens a scheduled drop now (admin), ahead of its start time if it has one.
+ */
+export const applyStart = (state: DropState, now: number = Date.now()): LifecycleResult => {
+  if (state.phase !== 'SCHEDULED') return { changed: false, state, events: [] };
+
+  const events: DropEvent[] = [{ type: 'DROP_STARTED', productId: state.productId, at: now }];
+  return { changed: true, state: foldEvents(state, events), events };
+};
+
+/**
+ * Pauses a live drop (admin). The current lock keeps running out, but nobody
+ * can view, buy or be offered the lock until the drop resumes.
+ */
+export const applyPause = (state: DropState, now: number = Date.now()): LifecycleResult => {
+  if (state.phase !== 'LIVE') return { changed: false, state, events: [] };
+
+  const events: DropEvent[] = [{ type: 'DROP_PAUSED', productId: state.productId, at: now }];
+  return { changed: true, state: foldEvents(state, events), events };
+};
+
+/**
+ * Resumes a paused drop (admin) and offers a free lock to the queue straight away.
+ */
+export const applyResume = (state: DropState, config: DropConfig, now: number = Date.now()): LifecycleResult => {
+  if (state.phase !== 'PAUSED') return { changed: false, state, events: [] };
+
+  const resumed: DropEvent[] = [{ type: 'DROP_RESUMED', productId: state.productId, at: now }];
+  const handOff = sweepDrop(foldEvents(state, resumed), config, now);
+  return { changed: true, state: handOff.state, events: [...resumed, ...handOff.events] };
+};
+
+/**
+ * Puts a drop back to its initial state under `config` (admin). Locks, queue,
+ * sales and revenue totals start over; fees already charged stay charged.
+ */
+export const applyReset = (state: DropState, config: DropConfig, now: number = Date.now()): LifecycleResult => {
+  const { version, ...initialState } = initDrop(config);
+  const events: DropEvent[] = [{ type: 'DROP_RESET', productId: state.productId, at: now, initialState }];
+  return { changed: true, state: foldEvents(state, events), events };
+};
@@ -0,0 +1,125 @@
+/**
+ * Per-client rate limits on the calls that touch a drop's lock and queue, and
+ * on signup and login. Every call is counted against the signed-in user (if
+ * any), the client IP and the device (when the client sends one); it is
+ * rejected if any of them is over its limit. Windows slide: a hit counts for exactly `windowMs`.
+ */
+
+// VIEW covers queue joins: a view while the lock is taken queues the viewer
+export type DropAction = 'VIEW' | 'CANCEL' | 'BUY';
+// AUTH covers signup and login, made before anyone is signed in
+export type RateLimitedAction = DropAction | 'AUTH';
+export type ClientScope = 'USER' | 'IP' | 'DEVICE';
+
+/** Who is calling. `deviceId` is client-generated, so it only ever adds limits. */
+export interface ClientIdentity {
+  userId?: string;               // unset for AUTH calls
+  ip: string;
+  deviceId?: string;
+}
+
+/** A client calling as a signed-in user, as every DropAction does. */
+export interface SignedInClient extends ClientIdentity {
+  userId: string;
+}
+
+export interface RateLimit {
+  limit: number;                 // calls allowed per window
+  windowMs: number;
+}
+
+export type RateLimitPolicy = Record<RateLimitedAction, Partial<Record<ClientScope, RateLimit>>>;
+
+const MINUTE = 60 * 1000;
+
+export const DEFAULT_RATE_LIMITS: RateLimitPolicy = {
+  VIEW: {
+    USER: { limit: 10, windowMs: MINUTE },
+    DEVICE: { limit: 20, windowMs: MINUTE },
+    IP: { limit: 60, windowMs: MINUTE },  // shared networks put many buyers behind one IP
+  },
+  CANCEL: {
+    USER: { limit: 10, windowMs: MINUTE },
+    DEVICE: { limit: 20, windowMs: MINUTE },
+    IP: { limit: 60, windowMs: MINUTE },
+  },
+  BUY: {
+    USER: { limit: 5, windowMs: MINUTE },
+    DEVICE: { limit: 10, windowMs: MINUTE },
+    IP: { limit: 30, windowMs: MINUTE },
+  },
+  // Each attempt costs a scrypt hash; this also caps password guessing
+  AUTH: {
+    DEVICE: { limit: 10, windowMs: MINUTE },
+    IP: { limit: 20, windowMs: MINUTE },
+  },
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  scope?: ClientScope;           // the first limit that was exceeded
+  retryAfterMs?: number;         // when that limit frees up
+}
+
+export interface RateLimiter {
+  /** Counts the call if every limit allows it; a rejected call isn't counted. */
+  check(action: RateLimitedAction, client: ClientIdentity, now?: number): RateLimitResult;
+}
+
+const subjectOf = (scope: ClientScope, client: ClientIdentity): string | undefined => {
+  switch (scope) {
+    case 'USER': return client.userId;
+    case 'IP': return client.ip;
+    case 'DEVICE': return client.deviceId;
+  }
+};
+
+// How often idle keys are swept out of memory
+const PRUNE_INTERVAL_MS = MINUTE;
+
+/**
+ * In-memory sliding-window limiter. Each key keeps the timestamps of its
+ * counted calls inside the window.
+ */
+export const createRateLimiter = (policy: RateLimitPolicy = DEFAULT_RATE_LIMITS): RateLimiter => {
+  const hits = new Map<string, number[]>();
+  let lastPrunedAt = 0;
+
+  const longestWindowMs = Math.max(
+    0,
+    ...Object.values(policy).flatMap(limits => Object.values(limits).map(limit => limit!.windowMs))
+  );
+
+  const prune = (now: number) => {
+    if (now - lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    lastPrunedAt = now;
+    hits.forEach((times, key) => {
+      if (times[times.length - 1] <= now - longestWindowMs) hits.delete(key);
+    });
+  };
+
+  const recentHits = (key: string, windowMs: number, now: number): number[] =>
+    (hits.get(key) || []).filter(at => at > now - windowMs);
+
+  return {
+    check: (action, client, now = Date.now()) => {
+      prune(now);
+
+      const counted: { key: string; times: number[] }[] = [];
+      for (const [scope, rule] of Object.entries(policy[action]) as [ClientScope, RateLimit][]) {
+        const subject = subjectOf(scope, client);
+        if (!subject) continue;
+
+        const key = `${action}:${scope}:${subject}`;
+        const times = recentHits(key, rule.windowMs, now);
+        if (times.length >= rule.limit) {
+          return { allowed: false, scope, retryAfterMs: times[times.length - rule.limit] + rule.windowMs - now };
+        }
+        counted.push({ key, times });
+      }
+
+      counted.forEach(({ key, times }) => hits.set(key, [...times, now]));
+      return { allowed: true };
+    },
+  };
+};
@@ -0,0 +1,210 @@
+/**
+ * Supplier settlement.
+ * Builds per-supplier statements for a period from the drops' event logs:
+ * units sold and sale proceeds (PURCHASED, less SALE_REFUNDED for paid orders
+ * that were cancelled or returned), the supplier's share of viewing
+ * fees and Qomo's commission (VIEW_CHARGED, less any REFUND_ISSUED reversals).
+ * Statements are per supplier and currency; amounts are never converted.
+ */
+import { DropConfig, DropState, DropEvent, sinceLastReset } from './pricingEngine';
+import { Money, CurrencyCode, ZERO, addMoney, subtractMoney, toMajor } from './money';
+import { toCsv } from './csv';
+
+export interface SettlementDrop {
+  config: DropConfig;
+  state: DropState;
+  events: DropEvent[];
+}
+
+/** Half-open interval [from, to) in ms epoch. */
+export interface SettlementPeriod {
+  from: number;
+  to: number;
+}
+
+export interface SettlementLine {
+  productId: string;
+  name: string;
+  unitsSold: number;             // net of refunded sales
+  saleProceeds: Money;           // net of refunded sales
+  views: number;
+  supplierFeeShare: Money;       // net of refund reversals
+  qomoCommission: Money;         // net of refund reversals
+  payout: Money;                 // saleProceeds + supplierFeeShare
+}
+
+export interface SettlementTotals {
+  unitsSold: number;
+  saleProceeds: Money;
+  views: number;
+  supplierFeeShare: Money;
+  qomoCommission: Money;
+  payout: Money;
+}
+
+export interface SupplierStatement {
+  supplierId: string;
+  currency: CurrencyCode;
+  period: SettlementPeriod;
+  lines: SettlementLine[];
+  totals: SettlementTotals;
+}
+
+export interface ReconciliationMismatch {
+  productId: string;
+  field: 'totalSupplierPlatformRevenue' | 'totalQomoRevenue' | 'saleProceeds';
+  expected: Money;               // engine state
+  actual: Money;                 // settlement
+}
+
+export interface ReconciliationResult {
+  reconciled: boolean;
+  mismatches: ReconciliationMismatch[];
+}
+
+/** Every event ever recorded. */
+export const ALL_TIME: SettlementPeriod = { from: 0, to: Number.MAX_SAFE_INTEGER };
+
+const inPeriod = (at: number, period: SettlementPeriod) => at >= period.from && at < period.to;
+
+/**
+ * Settles one drop's activity within the period.
+ */
+export const settleDrop = (drop: SettlementDrop, period: SettlementPeriod): SettlementLine => {
+  let unitsSold = 0;
+  let views = 0;
+  let saleProceeds = ZERO;
+  let supplierFeeShare = ZERO;
+  let qomoCommission = ZERO;
+
+  drop.events.filter(event => inPeriod(event.at, period)).forEach((event) => {
+    switch (event.type) {
+      case 'PURCHASED':
+        unitsSold++;
+        saleProceeds = addMoney(saleProceeds, event.soldPrice);
+        break;
+      case 'SALE_REFUNDED':
+        unitsSold--;
+        saleProceeds = subtractMoney(saleProceeds, event.amount);
+        break;
+      case 'VIEW_CHARGED':
+        views++;
+        supplierFeeShare = addMoney(supplierFeeShare, event.supplierShare);
+        qomoCommission = addMoney(qomoCommission, event.qomoShare);
+        break;
+      case 'REFUND_ISSUED':
+        supplierFeeShare = subtractMoney(supplierFeeShare, event.supplierShareReversed);
+        qomoCommission = subtractMoney(qomoCommission, event.qomoShareReversed);
+        break;
+    }
+  });
+
+  return {
+    productId: drop.config.productId,
+    name: drop.config.name,
+    unitsSold,
+    saleProceeds,
+    views,
+    supplierFeeShare,
+    qomoCommission,
+    payout: addMoney(saleProceeds, supplierFeeShare),
+  };
+};
+
+const sumLines = (lines: SettlementLine[]): SettlementTotals => ({
+  unitsSold: lines.reduce((sum, line) => sum + line.unitsSold, 0),
+  saleProceeds: addMoney(ZERO, ...lines.map(line => line.saleProceeds)),
+  views: lines.reduce((sum, line) => sum + line.views, 0),
+  supplierFeeShare: addMoney(ZERO, ...lines.map(line => line.supplierFeeShare)),
+  qomoCommission: addMoney(ZERO, ...lines.map(line => line.qomoCommission)),
+  payout: addMoney(ZERO, ...lines.map(line => line.payout)),
+});
+
+/**
+ * One statement per supplier and currency, drops in catalogue order.
+ * Drops with no activity in the period are left out.
+ */
+export const generateStatements = (drops: SettlementDrop[], period: SettlementPeriod): SupplierStatement[] => {
+  const statements = new Map<string, SupplierStatement>();
+
+  drops.forEach((drop) => {
+    const line = settleDrop(drop, period);
+    if (line.unitsSold === 0 && line.views === 0 && line.supplierFeeShare === 0 && line.qomoCommission === 0) return;
+
+    const { supplierId, currency } = drop.config;
+    const key = `${supplierId}:${currency}`;
+    const statement = statements.get(key) || { supplierId, currency, period, lines: [], totals: sumLines([]) };
+    statement.lines.push(line);
+    statements.set(key, statement);
+  });
+
+  return [...statements.values()].map(statement => ({ ...statement, totals: sumLines(statement.lines) }));
+};
+
+/**
+ * Checks settlement against the engine's running totals for every drop. The
+ * totals start over when a drop is reset, so only events since then count.
+ */
+export const reconcileSettlement = (drops: SettlementDrop[]): ReconciliationResult => {
+  const mismatches: ReconciliationMismatch[] = [];
+
+  drops.forEach((drop) => {
+    const line = settleDrop({ ...drop, events: sinceLastReset(drop.events) }, ALL_TIME);
+    const check = (field: ReconciliationMismatch['field'], expected: Money, actual: Money) => {
+      if (expected !== actual) mismatches.push({ productId: drop.config.productId, field, expected, actual });
+    };
+
+    check('totalSupplierPlatformRevenue', drop.state.totalSupplierPlatformRevenue, line.supplierFeeShare);
+    check('totalQomoRevenue', drop.state.totalQomoRevenue, line.qomoCommission);
+    const kept = drop.state.sales.filter(sale => sale.refundedAt === undefined);
+    check('saleProceeds', addMoney(ZERO, ...kept.map(sale => sale.soldPrice)), line.saleProceeds);
+  });
+
+  return { reconciled: mismatches.length === 0, mismatches };
+};
+
+// --- Export ---
+
+const CSV_COLUMNS = [
+  'supplierId', 'currency', 'periodFrom', 'periodTo', 'productId', 'productName',
+  'unitsSold', 'saleProceeds', 'views', 'supplierFeeShare', 'qomoCommission', 'payout',
+];
+
+const isoDate = (ms: number) => new Date(Math.min(ms, 8.64e15)).toISOString();
+
+const major = (amount: Money) => toMajor(amount).toFixed(2);
+
+/**
+ * One row per drop plus a TOTAL row per statement. Amounts in major units.
+ */
+export const statementsToCsv = (statements: SupplierStatement[]): string => {
+  const rows: (string | number)[][] = [CSV_COLUMNS];
+
+  statements.forEach((statement) => {
+    const prefix = [statement.supplierId, statement.currency, isoDate(statement.period.from), isoDate(statement.period.to)];
+    statement.lines.forEach((line) => {
+      rows.push([
+        ...prefix, line.productId, line.name,
+        line.unitsSold, major(line.saleProceeds), line.views,
+        major(line.supplierFeeShare), major(line.qomoCommission), major(line.payout),
+      ]);
+    });
+    const { totals } = statement;
+    rows.push([
+      ...prefix, 'TOTAL', '',
+      totals.unitsSold, major(totals.saleProceeds), totals.views,
+      major(totals.supplierFeeShare), major(totals.qomoCommission), major(totals.payout),
+    ]);
+  });
+
+  return toCsv(rows);
+};
+
+/**
+ * JSON export; amounts stay in minor units like every other API payload.
+ */
+export const statementsToJson = (statements: SupplierStatement[]): string =>
+  JSON.stringify(statements.map(statement => ({
+    ...statement,
+    period: { from: isoDate(statement.period.from), to: isoDate(statement.period.to) },
+  })), null, 2) + '\n';
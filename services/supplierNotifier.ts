@@ -0,0 +1,47 @@
+/**
+ * Supplier notification hooks for orders.
+ * The API calls the notifier whenever a paid order changes status. Notifiers
+ * must not throw into the order flow: a failed delivery is logged, never
+ * rolled back into the order.
+ */
+import { Order, OrderStatus } from './orders';
+
+export interface SupplierNotification {
+  supplierId: string;
+  orderId: string;
+  status: OrderStatus;           // the order's new status
+  order: Order;
+}
+
+export interface SupplierNotifier {
+  notify(notification: SupplierNotification): void | Promise<void>;
+}
+
+/**
+ * Development notifier: writes one line per notification.
+ */
+export const createLogSupplierNotifier = (log: (line: string) => void = console.log): SupplierNotifier => ({
+  notify: ({ supplierId, orderId, status, order }) => {
+    log(`[supplier ${supplierId}] order ${orderId} for ${order.productId} is now ${status}`);
+  },
+});
+
+/**
+ * POSTs each notification as JSON to a supplier-facing webhook.
+ */
+export const createWebhookSupplierNotifier = (url: string): SupplierNotifier => ({
+  notify: async (notification) => {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(notification),
+      });
+      if (!response.ok) {
+        console.error(`Supplier webhook answered ${response.status} for order ${notification.orderId}`);
+      }
+    } catch (err) {
+      console.error(`Supplier webhook failed for order ${notification.orderId}`, err);
+    }
+  },
+});
@@ -0,0 +1,191 @@
+/**
+ * User wallets.
+ * A wallet is an append-only ledger per user; balances are a fold over it.
+ * Viewing fees and purchases are charged by placing a hold on available
+ * funds and capturing it once the engine has accepted the action.
+ */
+import { Money, CurrencyCode, ZERO, addMoney, subtractMoney } from './money';
+import { PaymentProvider } from './paymentProvider';
+
+export type WalletEntryType = 'TOP_UP' | 'HOLD' | 'HOLD_RELEASED' | 'CAPTURE' | 'REFUND' | 'CREDIT';
+
+export interface WalletEntry {
+  id: string;
+  userId: string;
+  type: WalletEntryType;
+  amount: Money;                 // always positive; the type gives the direction
+  currency: CurrencyCode;
+  at: number;
+  holdId?: string;               // HOLD, HOLD_RELEASED and CAPTURE entries
+  productId?: string;            // what the money was for, if anything
+  reference?: string;            // e.g. 'VIEW_FEE', 'PURCHASE', 'DROP_ENDED', a payment transaction id
+}
+
+export interface WalletBalance {
+  currency: CurrencyCode;
+  available: Money;              // spendable now
+  held: Money;                   // reserved by open holds
+}
+
+export interface WalletHold {
+  id: string;
+  userId: string;
+  amount: Money;
+  currency: CurrencyCode;
+  productId?: string;
+  reference?: string;
+}
+
+export interface HoldResult {
+  success: boolean;
+  hold?: WalletHold;
+  error?: 'INSUFFICIENT_FUNDS';
+  balance: WalletBalance;
+}
+
+export interface TopUpResult {
+  success: boolean;
+  entry?: WalletEntry;
+  error?: 'PAYMENT_DECLINED';
+  message?: string;
+  balance: WalletBalance;
+}
+
+/**
+ * Storage for wallet ledgers.
+ */
+export interface WalletStore {
+  getEntries(userId: string): WalletEntry[];
+  append(entries: WalletEntry[]): void;
+}
+
+export const createInMemoryWalletStore = (): WalletStore => {
+  const ledgers = new Map<string, WalletEntry[]>();
+  return {
+    getEntries: (userId) => ledgers.get(userId) || [],
+    append: (entries) => {
+      entries.forEach((entry) => {
+        ledgers.set(entry.userId, [...(ledgers.get(entry.userId) || []), entry]);
+      });
+    },
+  };
+};
+
+/**
+ * Folds a user's ledger into per-currency balances.
+ */
+export const computeBalances = (entries: WalletEntry[]): Map<CurrencyCode, WalletBalance> => {
+  const balances = new Map<CurrencyCode, WalletBalance>();
+
+  entries.forEach((entry) => {
+    const balance = balances.get(entry.currency) || { currency: entry.currency, available: ZERO, held: ZERO };
+    switch (entry.type) {
+      case 'TOP_UP':
+      case 'REFUND':
+      case 'CREDIT':
+        balance.available = addMoney(balance.available, entry.amount);
+        break;
+      case 'HOLD':
+        balance.available = subtractMoney(balance.available, entry.amount);
+        balance.held = addMoney(balance.held, entry.amount);
+        break;
+      case 'HOLD_RELEASED':
+        balance.available = addMoney(balance.available, entry.amount);
+        balance.held = subtractMoney(balance.held, entry.amount);
+        break;
+      case 'CAPTURE':
+        balance.held = subtractMoney(balance.held, entry.amount);
+        break;
+    }
+    balances.set(entry.currency, balance);
+  });
+
+  return balances;
+};
+
+export interface WalletService {
+  getBalance(userId: string, currency: CurrencyCode): WalletBalance;
+  getBalances(userId: string): WalletBalance[];
+  getLedger(userId: string): WalletEntry[];
+  topUp(userId: string, amount: Money, currency: CurrencyCode, paymentToken: string): Promise<TopUpResult>;
+  placeHold(userId: string, amount: Money, currency: CurrencyCode, details?: { productId?: string; reference?: string }): HoldResult;
+  captureHold(hold: WalletHold): WalletEntry;
+  releaseHold(hold: WalletHold): WalletEntry;
+  /** Pays money back into a wallet (refunds, goodwill credit). No provider call. */
+  credit(
+    userId: string,
+    amount: Money,
+    currency: CurrencyCode,
+    type: 'REFUND' | 'CREDIT',
+    details?: { productId?: string; reference?: string }
+  ): WalletEntry;
+}
+
+export const createWalletService = (store: WalletStore, paymentProvider: PaymentProvider): WalletService => {
+  const getBalance = (userId: string, currency: CurrencyCode): WalletBalance =>
+    computeBalances(store.getEntries(userId)).get(currency) || { currency, available: ZERO, held: ZERO };
+
+  const append = (entry: Omit<WalletEntry, 'id' | 'at'>): WalletEntry => {
+    const full: WalletEntry = { ...entry, id: crypto.randomUUID(), at: Date.now() };
+    store.append([full]);
+    return full;
+  };
+
+  const closeHold = (hold: WalletHold, type: 'CAPTURE' | 'HOLD_RELEASED'): WalletEntry => {
+    const entries = store.getEntries(hold.userId);
+    if (!entries.some(e => e.type === 'HOLD' && e.holdId === hold.id)) {
+      throw new Error(`Hold ${hold.id} not found`);
+    }
+    if (entries.some(e => e.holdId === hold.id && e.type !== 'HOLD')) {
+      throw new Error(`Hold ${hold.id} is already closed`);
+    }
+    return append({
+      userId: hold.userId,
+      type,
+      amount: hold.amount,
+      currency: hold.currency,
+      holdId: hold.id,
+      productId: hold.productId,
+      reference: hold.reference,
+    });
+  };
+
+  return {
+    getBalance,
+    getBalances: (userId) => [...computeBalances(store.getEntries(userId)).values()],
+    getLedger: (userId) => [...store.getEntries(userId)],
+
+    topUp: async (userId, amount, currency, paymentToken) => {
+      if (!Number.isInteger(amount) || amount <= 0) {
+        throw new Error('Top-up amount must be a positive number of minor units');
+      }
+      const charge = await paymentProvider.charge({ userId, amount, currency, paymentToken });
+      if (!charge.success) {
+        return {
+          success: false,
+          error: 'PAYMENT_DECLINED',
+          message: charge.declineReason,
+          balance: getBalance(userId, currency),
+        };
+      }
+      const entry = append({ userId, type: 'TOP_UP', amount, currency, reference: charge.transactionId });
+      return { success: true, entry, balance: getBalance(userId, currency) };
+    },
+
+    placeHold: (userId, amount, currency, details = {}) => {
+      const balance = getBalance(userId, currency);
+      if (balance.available < amount) {
+        return { success: false, error: 'INSUFFICIENT_FUNDS', balance };
+      }
+      const hold: WalletHold = { id: crypto.randomUUID(), userId, amount, currency, ...details };
+      append({ userId, type: 'HOLD', amount, currency, holdId: hold.id, ...details });
+      return { success: true, hold, balance: getBalance(userId, currency) };
+    },
+
+    captureHold: (hold) => closeHold(hold, 'CAPTURE'),
+    releaseHold: (hold) => closeHold(hold, 'HOLD_RELEASED'),
+
+    credit: (userId, amount, currency, type, details = {}) =>
+      append({ userId, type, amount, currency, ...details }),
+  };
+};
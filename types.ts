@@ -1,15 +1,39 @@
+import { DropConfig } from './services/pricingEngine';
+
 export interface Product {
   id: string;
   name: string;
   description: string;
+  longDescription: string;
   placeholderUrl: string;
   generatedImage?: string;
   priceHidden: boolean;
   basePrice: number;
+  quantity: number;              // units in the drop
+  startsAt?: string;             // ISO 8601, from the drop's schedule
+  endsAt?: string;
+}
+
+/**
+ * Storefront copy and imagery for a drop.
+ */
+export interface ProductDisplay {
+  description: string;           // one-line card copy
+  longDescription: string;       // "About this Item" copy on the detail page
+  placeholderUrl: string;
+  imageUrl?: string;             // uploaded or generated in the admin console; shown instead of the placeholder
+}
+
+/**
+ * One catalogue entry (config/products.json): the engine's DropConfig plus
+ * the display fields the storefront needs.
+ */
+export interface CatalogueEntry extends DropConfig {
+  display: ProductDisplay;
 }
 
 export type ImageResolution = '1K' | '2K' | '4K';
 
 export interface GenerationConfig {
   resolution: ImageResolution;
-}
\ No newline at end of file
+}
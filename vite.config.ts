@@ -8,11 +8,19 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // Drop API (npm run server)
+          '/api': {
+            target: env.QOMO_API_TARGET || 'http://localhost:8787',
+            rewrite: (p) => p.replace(/^\/api/, ''),
+          },
+        },
       },
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.QOMO_API_URL': JSON.stringify(env.QOMO_API_URL || '/api')
       },
       resolve: {
         alias: {